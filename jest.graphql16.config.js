@@ -0,0 +1,11 @@
+// runs the tests against GraphQL.js 16, installed as `graphql-16`, rather than the `graphql` 15 which
+// everything else is developed against
+const { jest } = require("./package.json")
+
+module.exports = {
+    ...jest,
+    moduleNameMapper: {
+        "^graphql$": "graphql-16",
+        "^graphql/(.*)$": "graphql-16/$1",
+    },
+}
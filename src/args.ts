@@ -1,5 +1,7 @@
-import { GraphQLResolveInfo, FieldNode, GraphQLObjectType } from "graphql"
-import { getSubfields, parseValueNode } from "./ast"
+import { GraphQLResolveInfo, GraphQLObjectType, GraphQLError } from "graphql"
+import { getArgumentValues } from "graphql/execution/values"
+import { getSubfields } from "./ast"
+import { locateError } from "./errors"
 
 type Path = GraphQLResolveInfo["path"]
 
@@ -9,7 +11,8 @@ type Path = GraphQLResolveInfo["path"]
  * @param type The concrete type of the current field's value
  * @param info The parent field's GraphQLResolveInfo
  * @param arrayKeys If the parent field is an array, (or a multidimensional array), this is the number-path to the current field.
- * @returns A map of keys to their resolver args and GraphQLResolveInfos.
+ * @returns A map of response keys to their resolver args and GraphQLResolveInfos, or the error encountered
+ * when coercing their args.
  */
 export const descendFields = <TArgs extends Record<string, any>>(
     type: GraphQLObjectType,
@@ -20,44 +23,54 @@ export const descendFields = <TArgs extends Record<string, any>>(
     {
         info: GraphQLResolveInfo
         args: TArgs
+        error?: GraphQLError
     }
 > => {
-    const fieldNode = info.fieldNodes.find(n => n.name.value === info.fieldName)
-    if (!fieldNode) throw "The field does not exist, incoming GraphQLResolveInfo is corrupt."
+    if (info.fieldNodes.length === 0)
+        throw locateError("The field does not exist, incoming GraphQLResolveInfo is corrupt.", info)
 
-    const { getFields, hasFields } = getSubfields(fieldNode, info)
-    // This expects all rest operators to be over concrete types.
-    // TODO: expand this to all types, i.e. + interfaces and unions
-    let fieldNodes: FieldNode[] = [
-        ...(hasFields(type.name) ? getFields(type.name).values() : getFields().values()),
-    ]
+    const fieldNodes = getSubfields(info.fieldNodes, type, info)
+    // meta fields are left to GraphQL.js when it executes the payload, as `__typename` only depends on
+    // the concrete type, while `__schema` and `__type` are left out of the response anywhere besides the
+    // query type
+    for (const [responseKey, [node]] of fieldNodes)
+        if (node.name.value.startsWith("__")) fieldNodes.delete(responseKey)
 
-    let basePath = arrayKeys.reduce((prev, key, index) => ({ prev, key, typename: index === 0 ? type.name : undefined }), info.path)
+    let basePath = arrayKeys.reduce((prev, key) => ({ prev, key, typename: undefined }), info.path)
 
     return new Map(
-        fieldNodes.map(node => {
+        [...fieldNodes].map(([responseKey, nodes]) => {
+            const node = nodes[0]
             const fieldName = node.name.value
-            const args = (node.arguments ?? [])
-                .map(({ name, value }) => ({ [name.value]: parseValueNode(value, info) }))
-                .reduce((a, x) => ({ ...a, ...x }), {}) as TArgs
             const returnField = type.getFields()[fieldName]
-            if (!returnField) throw `Field ${fieldName} does not exist on type.`
+            if (!returnField)
+                throw locateError(`Field ${fieldName} does not exist on type ${type.name}.`, info)
             const returnType = returnField.type
 
             const newInfo = {
                 ...info,
                 fieldName,
-                fieldNodes,
+                fieldNodes: nodes,
                 parentType: type,
                 returnType,
-                path: { prev: basePath, key: fieldName, typename: arrayKeys.length == 0 ? type.name : undefined } as Path,
+                path: { prev: basePath, key: responseKey, typename: type.name } as Path,
+            }
+
+            // coerced exactly as they would be in a query
+            let args = {} as TArgs
+            let error: GraphQLError | undefined
+            try {
+                args = getArgumentValues(returnField, node, info.variableValues) as TArgs
+            } catch (err) {
+                error = locateError(err, newInfo)
             }
 
             return [
-                fieldName,
+                responseKey,
                 {
                     info: newInfo,
                     args,
+                    ...(error ? { error } : {}),
                 },
             ]
         })
@@ -1,136 +1,106 @@
 import {
-    VariableNode,
-    IntValueNode,
-    FloatValueNode,
-    StringValueNode,
-    BooleanValueNode,
-    NullValueNode,
-    EnumValueNode,
-    ListValueNode,
-    ObjectValueNode,
-    ValueNode,
     FieldNode,
     SelectionSetNode,
     GraphQLResolveInfo,
-    OperationTypeNode,
+    FragmentSpreadNode,
+    InlineFragmentNode,
+    GraphQLSkipDirective,
+    GraphQLIncludeDirective,
+    getDirectiveValues,
+    FragmentDefinitionNode,
+    GraphQLObjectType,
+    typeFromAST,
+    isTypeSubTypeOf,
 } from "graphql"
-import { isString } from "./util"
-
-type NodesToValues =
-    | [VariableNode, any]
-    | [IntValueNode, number]
-    | [FloatValueNode, number]
-    | [StringValueNode, string]
-    | [BooleanValueNode, boolean]
-    | [NullValueNode, null]
-    | [EnumValueNode, string]
-    | [ListValueNode, any[]]
-    | [ObjectValueNode, { [key: string]: any }]
+import { OperationType } from "./compat"
 
 /**
- * Parse a value's AST form into a JavaScript value.
- * @param n The ValueNode.
+ * Evaluate the `@skip` and `@include` directives of a selection.
+ * @param node The selection.
  * @param info Any valid GraphQLResolveInfo in this query, (for use in accessing variable values)
- * @return The JavaScript value of the ValueNode.
+ * @returns Whether the selection should be included in the result.
  */
-export const parseValueNode = <T extends NodesToValues>(
-    n: T[0],
+export const shouldIncludeNode = (
+    node: FieldNode | FragmentSpreadNode | InlineFragmentNode,
     info: GraphQLResolveInfo
-): T[1] => {
-    const node = n as ValueNode
-    switch (node.kind) {
-        case "IntValue":
-            return parseInt(node.value)
-        case "FloatValue":
-            return parseFloat(node.value)
-        case "StringValue":
-            return node.value
-        case "BooleanValue":
-            return node.value
-        case "NullValue":
-            return null
-        case "EnumValue":
-            return node.value
-        case "ListValue":
-            return node.values.map(v => parseValueNode(v, info))
-        case "ObjectValue":
-            return node.fields
-                .map(({ name, value }) => ({ [name.value]: parseValueNode(value, info) }))
-                .reduce((a, x) => ({ ...a, ...x }), {})
-        case "Variable":
-            return info.variableValues[node.name.value]
-        default:
-            return null
-    }
+): boolean => {
+    const skip = getDirectiveValues(GraphQLSkipDirective, node, info.variableValues)
+    if (skip?.if === true) return false
+    const include = getDirectiveValues(GraphQLIncludeDirective, node, info.variableValues)
+    if (include?.if === false) return false
+    return true
 }
 
-export interface PolymorphicFields {
-    getFields(type?: string): Map<string, FieldNode>
-    hasFields(type?: string): boolean
+/**
+ * The key a field's value is returned under, i.e. its alias if it has one, or otherwise its name.
+ * @param n The FieldNode.
+ */
+export const getResponseKey = (n: FieldNode): string => (n.alias ?? n.name).value
+
+/**
+ * Determine whether a fragment's type condition applies to a concrete type, i.e. whether the
+ * concrete type is, or is a possible type of, the type named in the condition.
+ * @param fragment The fragment, or inline fragment.
+ * @param type The concrete type of the value the fragment is being applied to.
+ * @param info Any valid GraphQLResolveInfo in this query, (for use in accessing the schema)
+ */
+export const doesFragmentConditionMatch = (
+    fragment: FragmentDefinitionNode | InlineFragmentNode,
+    type: GraphQLObjectType,
+    info: GraphQLResolveInfo
+): boolean => {
+    if (!fragment.typeCondition) return true
+    const conditionalType = typeFromAST(info.schema, fragment.typeCondition)
+    if (!conditionalType) return false
+    return isTypeSubTypeOf(info.schema, type, conditionalType)
 }
 
 /**
- * Without knowing what the concrete type of the FieldNode's value is, creates a way to
- * access all possible FieldNodes given any possible concrete type.
- * @param n The parent FieldNode
+ * Collect the FieldNodes requested on a concrete type by the selection sets of the parent FieldNodes,
+ * in the same manner as GraphQL.js does when executing a query.
+ *
+ * Fields are grouped by response key, so aliased selections of the same field are kept apart,
+ * and repeated selections of the same response key are merged. Fragments apply whenever the
+ * concrete type is a subtype of their type condition, so fragments on interfaces and unions
+ * are included.
+ * @param ns The parent FieldNodes, (all FieldNodes sharing the parent's response key)
+ * @param type The concrete type of the parent field's value.
  * @param info Any valid GraphQLResolveInfo in this query, as fragments may be required.
- * @returns An interface for telling whether a specific type has any fields requests in this query, and returns them as appropriate.
+ * @returns A map of response keys to the FieldNodes requested under them.
  */
-export const getSubfields = (n: FieldNode, info: GraphQLResolveInfo): PolymorphicFields => {
-    const all = new Map<string, FieldNode>()
-    const polymorphic = new Map<string, Map<string, FieldNode>>()
-
-    const copy = (to: string, from?: string) => {
-        let toMap: Map<string, FieldNode>
-        if (!polymorphic.has(to)) {
-            toMap = new Map()
-            polymorphic.set(to, toMap)
-        } else toMap = polymorphic.get(to)!
-
-        let fromMap = !isString(from) ? all : polymorphic.get(from)!
-
-        for (const [k, v] of fromMap) toMap.set(k, v)
-    }
-
-    const parseSelectionSet = (s: SelectionSetNode | undefined, resolvedType?: string) => {
-        const add = isString(resolvedType)
-            ? (s: string, v: FieldNode) => {
-                  if (!polymorphic.has(resolvedType)) polymorphic.set(resolvedType, new Map())
-                  polymorphic.get(resolvedType)!.set(s, v)
-              }
-            : all.set.bind(all)
+export const getSubfields = (
+    ns: readonly FieldNode[],
+    type: GraphQLObjectType,
+    info: GraphQLResolveInfo
+): Map<string, FieldNode[]> => {
+    const fields = new Map<string, FieldNode[]>()
+    const visitedFragments = new Set<string>()
 
-        if (s) {
-            for (const selection of s.selections) {
-                if (selection.kind === "Field") {
-                    add(selection.name.value, selection)
-                } else if (selection.kind === "FragmentSpread") {
-                    const fragment = info.fragments[selection.name.value]
-                    if (!fragment) continue
-                    const typeName = fragment.typeCondition.name.value ?? resolvedType
-                    copy(typeName, resolvedType)
-                    parseSelectionSet(fragment.selectionSet, typeName)
-                } else {
-                    const typeName = selection.typeCondition?.name?.value ?? resolvedType
-                    if (isString(typeName)) copy(typeName, resolvedType)
-                    parseSelectionSet(selection.selectionSet, typeName)
-                }
+    const parseSelectionSet = (s: SelectionSetNode | undefined) => {
+        if (!s) return
+        for (const selection of s.selections) {
+            if (!shouldIncludeNode(selection, info)) continue
+            if (selection.kind === "Field") {
+                const key = getResponseKey(selection)
+                if (!fields.has(key)) fields.set(key, [])
+                fields.get(key)!.push(selection)
+            } else if (selection.kind === "FragmentSpread") {
+                const name = selection.name.value
+                if (visitedFragments.has(name)) continue
+                visitedFragments.add(name)
+                const fragment = info.fragments[name]
+                if (!fragment || !doesFragmentConditionMatch(fragment, type, info)) continue
+                parseSelectionSet(fragment.selectionSet)
+            } else {
+                if (!doesFragmentConditionMatch(selection, type, info)) continue
+                parseSelectionSet(selection.selectionSet)
             }
         }
     }
 
-    parseSelectionSet(n.selectionSet)
+    for (const n of ns) parseSelectionSet(n.selectionSet)
 
-    return {
-        getFields(type?: string) {
-            if (isString(type)) return new Map([...(polymorphic.get(type) ?? [])])
-            return new Map(all)
-        },
-        hasFields(type?: string) {
-            if (isString(type)) return polymorphic.has(type) && polymorphic.get(type)!.size > 0
-            else return all.size > 0
-        },
-    }
+    return fields
 }
 
 /**
@@ -138,4 +108,5 @@ export const getSubfields = (n: FieldNode, info: GraphQLResolveInfo): Polymorphi
  * @param o The GraphQLResolveInfo of the query.
  * @returns The operation type - `query`, `mutation`, or `subscription`.
  */
-export const getOperation = (o: GraphQLResolveInfo): OperationTypeNode => o.operation.operation
+export const getOperation = (o: GraphQLResolveInfo): OperationType =>
+    String(o.operation.operation) as OperationType
@@ -0,0 +1,136 @@
+import { GraphQLResolveInfo, getDirectiveValues } from "graphql"
+import { PromiseOrValue } from "./compat"
+import { locateError, locateFatalError } from "./errors"
+
+/**
+ * Decides whether a field may be subscribed to, given the same arguments as its resolvers.
+ */
+export type AuthorizeFunction<TSource = any, TContext = any, TArgs = any> = (
+    parent: TSource,
+    args: TArgs,
+    context: TContext,
+    info: GraphQLResolveInfo
+) => PromiseOrValue<boolean>
+
+/**
+ * Decides whether a field with a given schema directive may be subscribed to, given the coerced
+ * arguments of the directive, followed by the same arguments as the field's resolvers.
+ */
+export type AuthorizeDirectiveFunction<TContext = any> = (
+    directiveArgs: { [key: string]: any },
+    parent: any,
+    args: { [key: string]: any },
+    context: TContext,
+    info: GraphQLResolveInfo
+) => PromiseOrValue<boolean>
+
+/**
+ * How the fields of patched subscriptions are authorized.
+ */
+export interface AuthorizeOptions<TContext = any> {
+    /** Authorize functions, keyed by type name then field name. */
+    fields?: { [typeName: string]: { [fieldName: string]: AuthorizeFunction<any, TContext> } }
+    /**
+     * Authorize functions for fields whose definitions have a schema directive, keyed by directive
+     * name, e.g. `auth` for `email: String @auth(requires: ADMIN)`.
+     */
+    directives?: { [name: string]: AuthorizeDirectiveFunction<TContext> }
+    /**
+     * Whether fields are authorized again before each of their updates is sent, rather than only when
+     * they are subscribed to. By default, they aren't.
+     */
+    recheck?: boolean
+    /**
+     * What happens when a field is denied. `null`, (the default), reports an error and nulls the
+     * nearest nullable field, while `end` ends the whole subscription with the error.
+     */
+    denied?: "null" | "end"
+}
+
+/**
+ * Create a function which authorizes a field, if any authorize functions apply to it.
+ * @param options The authorize options.
+ * @param parent The parent value.
+ * @param args The field's coerced args.
+ * @param context The context value.
+ * @param info The GraphQLResolveInfo of the field.
+ * @returns A function which resolves to whether the field is authorized, or undefined if every field
+ * would be.
+ */
+const getAuthorizer = (
+    options: AuthorizeOptions,
+    parent: any,
+    args: { [key: string]: any },
+    context: any,
+    info: GraphQLResolveInfo
+) => {
+    const { parentType, fieldName, schema, variableValues } = info
+    const checks = [] as (() => PromiseOrValue<boolean>)[]
+
+    const authorizeField = options.fields?.[parentType.name]?.[fieldName]
+    if (authorizeField) checks.push(() => authorizeField(parent, args, context, info))
+
+    const fieldNode = parentType.getFields()[fieldName]?.astNode
+    for (const { name } of fieldNode?.directives ?? []) {
+        const authorizeDirective = options.directives?.[name.value]
+        const directive = schema.getDirective(name.value)
+        if (!authorizeDirective || !directive) continue
+        const directiveArgs = getDirectiveValues(directive, fieldNode!, variableValues) ?? {}
+        checks.push(() => authorizeDirective(directiveArgs, parent, args, context, info))
+    }
+
+    if (checks.length === 0) return undefined
+    return async () => {
+        for (const check of checks) if (!(await check())) return false
+        return true
+    }
+}
+
+/**
+ * Authorize a field's iterator, which is only started once the field has been authorized, and, if
+ * rechecking, is only allowed to send each update once the field has been authorized again. A denied
+ * field's iterator is returned, and its final value is an error.
+ * @param it The field's iterator.
+ * @param options The authorize options.
+ * @param field The surrounding information of the field.
+ * @param release Called once the field is denied, to release anything kept running on its behalf.
+ * @returns The authorized iterator.
+ */
+export const authorizeAsyncIterator = (
+    it: AsyncIterableIterator<any>,
+    options: AuthorizeOptions,
+    {
+        parent,
+        args,
+        context,
+        info,
+    }: { parent: any; args: { [key: string]: any }; context: any; info: GraphQLResolveInfo },
+    release?: () => void
+): AsyncIterableIterator<any> => {
+    const isAuthorized = getAuthorizer(options, parent, args, context, info)
+    if (!isAuthorized) return it
+
+    const deny = () => {
+        release?.()
+        const message = `Not authorized to access ${info.parentType.name}.${info.fieldName}.`
+        if (options.denied === "end") throw locateFatalError(message, info)
+        return locateError(message, info)
+    }
+
+    return (async function* () {
+        if (!(await isAuthorized())) {
+            await it.return?.()
+            yield deny()
+            return
+        }
+        let checked = true
+        for await (const v of it) {
+            if (!checked && !(await isAuthorized())) {
+                yield deny()
+                return
+            }
+            checked = !options.recheck
+            yield v
+        }
+    })()
+}
@@ -0,0 +1,101 @@
+import { GraphQLResolveInfo } from "graphql"
+import { PromiseOrValue } from "./compat"
+import { stableStringify } from "./util"
+
+/**
+ * Resolves a field for many parents at once, e.g. with a single database query, or by calling
+ * `loadMany` on a DataLoader kept on the context.
+ *
+ * Values are returned in the same order as the parents. An `Error` in place of a value fails the field
+ * for that parent alone.
+ * @param parents The parent values, each of which appears once.
+ * @param args The field's coerced args, which are the same for every parent.
+ * @param context The context value.
+ * @param info The GraphQLResolveInfo of the field, for the first parent.
+ */
+export type BatchFunction<TSource = any, TContext = any, TArgs = any> = (
+    parents: readonly TSource[],
+    args: TArgs,
+    context: TContext,
+    info: GraphQLResolveInfo
+) => PromiseOrValue<ArrayLike<any>>
+
+interface Load {
+    parent: any
+    res: (value: any) => void
+    rej: (err: any) => void
+}
+
+export interface Batcher {
+    /**
+     * Resolve a field with its batch function, alongside every other load of the same field and args.
+     * Loading the same parent twice resolves it once.
+     */
+    load(
+        batch: BatchFunction,
+        parent: any,
+        args: { [arg: string]: any },
+        context: any,
+        info: GraphQLResolveInfo
+    ): Promise<any>
+}
+
+/**
+ * Create a batcher for a single update of a subscription, so that the fields resolved for that update
+ * are resolved together, and resolved values are never reused by later updates.
+ */
+export const createBatcher = (): Batcher => {
+    // the values loaded so far, per field and args, per parent
+    const loaded = new Map<string, Map<any, Promise<any>>>()
+    // the loads which have yet to be dispatched, per field and args
+    const queues = new Map<string, Load[]>()
+
+    const dispatch = async (
+        key: string,
+        batch: BatchFunction,
+        args: { [arg: string]: any },
+        context: any,
+        info: GraphQLResolveInfo
+    ) => {
+        const queue = queues.get(key)!
+        queues.delete(key)
+        try {
+            const values = await batch(
+                queue.map(load => load.parent),
+                args,
+                context,
+                info
+            )
+            if (values.length !== queue.length)
+                throw new Error(
+                    `The batch function of ${info.parentType.name}.${info.fieldName} returned ${values.length} values for ${queue.length} parents.`
+                )
+            queue.forEach(({ res, rej }, i) =>
+                values[i] instanceof Error ? rej(values[i]) : res(values[i])
+            )
+        } catch (err) {
+            for (const { rej } of queue) rej(err)
+        }
+    }
+
+    return {
+        load(batch, parent, args, context, info) {
+            const key = `${info.parentType.name}.${info.fieldName}:${stableStringify(args)}`
+            if (!loaded.has(key)) loaded.set(key, new Map())
+            const values = loaded.get(key)!
+            if (values.has(parent)) return values.get(parent)!
+
+            const value = new Promise<any>((res, rej) => {
+                if (!queues.has(key)) {
+                    queues.set(key, [])
+                    // fields are reached one after another, so every load made before the next
+                    // macrotask joins the batch
+                    setTimeout(() => dispatch(key, batch, args, context, info), 0)
+                }
+                queues.get(key)!.push({ parent, res, rej })
+            })
+            values.set(parent, value)
+            return value
+        },
+    }
+}
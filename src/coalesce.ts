@@ -0,0 +1,139 @@
+import { DirectiveHandler } from "./directives"
+import { toAsyncIterableIterator } from "./util"
+
+/**
+ * How updates which arrive close together are combined into a single update. Only the latest value in
+ * each window is kept.
+ *
+ * `throttle` emits at most once every `ms` milliseconds, `debounce` emits once no update has arrived
+ * for `ms` milliseconds, and `batch` emits once everything resolved in the same turn of the event loop
+ * has arrived.
+ */
+export type CoalescePolicy =
+    | {
+          type: "throttle" | "debounce"
+          ms: number
+      }
+    | {
+          type: "batch"
+      }
+
+/**
+ * Returns a new async iterator, which only yields the latest value of the original iterator at the
+ * pace allowed by the policy.
+ * @param it The original iterator.
+ * @param policy The coalescing policy.
+ * @returns The coalesced iterator.
+ */
+export const coalesceAsyncIterator = <T>(
+    it: AsyncIterableIterator<T>,
+    policy: CoalescePolicy
+): AsyncIterableIterator<T> => {
+    const empty = Symbol("empty")
+    let latest: T | typeof empty = empty
+    // counts the values received, as the same value may be received more than once
+    let version = 0
+    let error: { error: any } | undefined
+    let done = false
+    let started = false
+    let lastEmit = -Infinity
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let wake: (() => void) | undefined
+
+    const notify = () => {
+        if (wake) wake()
+        wake = undefined
+    }
+    const signal = () => new Promise<void>(res => (wake = res))
+    // wakes early when a value arrives, or when the iterator is returned
+    const sleep = (ms: number) =>
+        new Promise<void>(res => {
+            wake = res
+            timer = setTimeout(res, ms)
+        }).then(() => clearTimeout(timer!))
+
+    const pullAll = async () => {
+        try {
+            while (!done) {
+                const result = await it.next()
+                if (result.done) break
+                latest = result.value
+                version++
+                notify()
+            }
+        } catch (err) {
+            error = { error: err }
+        }
+        done = true
+        notify()
+    }
+
+    return toAsyncIterableIterator<T>({
+        async next() {
+            if (!started) {
+                started = true
+                pullAll()
+            }
+
+            while (latest === empty && !done) await signal()
+            if (latest === empty) {
+                if (error) throw error.error
+                return { value: undefined, done: true }
+            }
+
+            if (!done) {
+                if (policy.type === "throttle") {
+                    let ms: number
+                    while ((ms = lastEmit + policy.ms - Date.now()) > 0 && !done) await sleep(ms)
+                } else if (policy.type === "batch") {
+                    await new Promise(res => setTimeout(res, 0))
+                } else {
+                    // the window restarts whenever a new value arrives
+                    let seen: number
+                    do {
+                        seen = version
+                        await sleep(policy.ms)
+                    } while (version !== seen && !done)
+                }
+            }
+
+            // the iterator may have been returned in the meantime
+            if (latest === empty) return { value: undefined, done: true }
+            const value = latest
+            latest = empty
+            lastEmit = Date.now()
+            return { value, done: false }
+        },
+        async return(value?: any) {
+            done = true
+            latest = empty
+            notify()
+            if (it.return)
+                Promise.resolve()
+                    .then(() => it.return!())
+                    .catch(() => {})
+            return { value, done: true }
+        },
+    })
+}
+
+/**
+ * Handlers for the `@throttle(ms: Int!)` and `@debounce(ms: Int!)` directives, which coalesce the updates
+ * of a single field. They're only used once they're included in the `directives` option, so that
+ * directives of your own with the same names are left alone.
+ */
+export const coalesceDirectives: { [name: string]: DirectiveHandler } = {
+    throttle: (it, { directiveArgs }) =>
+        coalesceAsyncIterator(it, { type: "throttle", ms: directiveArgs.ms }),
+    debounce: (it, { directiveArgs }) =>
+        coalesceAsyncIterator(it, { type: "debounce", ms: directiveArgs.ms }),
+}
+
+/**
+ * The definitions of the `@throttle` and `@debounce` directives, to be included in the schema's type
+ * definitions.
+ */
+export const coalesceDirectiveTypeDefs = `
+    directive @throttle(ms: Int!) on FIELD
+    directive @debounce(ms: Int!) on FIELD
+`
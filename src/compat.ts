@@ -0,0 +1,38 @@
+import { GraphQLAbstractType, GraphQLResolveInfo, defaultTypeResolver, isObjectType } from "graphql"
+
+// Everything which differs between GraphQL.js 15 and 16 is kept here.
+
+/**
+ * A value, or a promise of one.
+ */
+export type PromiseOrValue<T> = Promise<T> | T
+
+/**
+ * The type of an operation. These are strings in GraphQL.js 15, and an enum of the same strings in 16.
+ */
+export type OperationType = "query" | "mutation" | "subscription"
+
+/**
+ * Run the type resolver of an abstract type, or GraphQL.js' default type resolver if it has none.
+ *
+ * GraphQL.js 15 allows type resolvers to return the object type itself, where 16 only allows its name,
+ * so either is accepted.
+ * @param value The value to resolve the type of.
+ * @param context The GraphQL.js context object.
+ * @param info The GraphQLResolveInfo of the field the value belongs to.
+ * @param type The abstract type.
+ * @returns The name of the resolved type, if one was resolved.
+ */
+export const runTypeResolver = async (
+    value: any,
+    context: any,
+    info: GraphQLResolveInfo,
+    type: GraphQLAbstractType
+): Promise<string | undefined> => {
+    const typeResolver = (type.resolveType ?? defaultTypeResolver) as (
+        ...args: any[]
+    ) => PromiseOrValue<unknown>
+    const resolved = await typeResolver(value, context, info, type)
+    if (isObjectType(resolved)) return resolved.name
+    return typeof resolved === "string" ? resolved : undefined
+}
@@ -0,0 +1,185 @@
+import {
+    DocumentNode,
+    FragmentDefinitionNode,
+    GraphQLCompositeType,
+    GraphQLError,
+    GraphQLSchema,
+    InlineFragmentNode,
+    OperationDefinitionNode,
+    SelectionSetNode,
+    ValidationRule,
+    getNamedType,
+    getNullableType,
+    getOperationAST,
+    isCompositeType,
+    isInterfaceType,
+    isListType,
+    isObjectType,
+} from "graphql"
+
+/**
+ * How the cost of an operation is estimated.
+ */
+export interface CostOptions {
+    /** The expected lengths of list fields, keyed by type name then field name. */
+    listSizes?: { [typeName: string]: { [fieldName: string]: number } }
+    /** The expected length of any list field without a size of its own. By default, 10. */
+    defaultListSize?: number
+}
+
+/**
+ * Options for the cost limit validation rule.
+ */
+export interface CostLimitOptions extends CostOptions {
+    /** The greatest cost a subscription, (or live query), may have. */
+    maxCost: number
+}
+
+/**
+ * Estimate the cost of a selection set, which is the number of fields subscribed to beneath it, given
+ * how many times it is subscribed to.
+ */
+const getSelectionSetCost = (
+    schema: GraphQLSchema,
+    fragments: { [name: string]: FragmentDefinitionNode },
+    options: CostOptions,
+    type: GraphQLCompositeType,
+    selectionSet: SelectionSetNode,
+    multiplier: number,
+    visitedFragments: Set<string>
+): number => {
+    let cost = 0
+    for (const selection of selectionSet.selections) {
+        if (selection.kind === "Field") {
+            const name = selection.name.value
+            const field =
+                isObjectType(type) || isInterfaceType(type) ? type.getFields()[name] : undefined
+            // meta fields, (and unknown fields, which fail validation), are never subscribed to
+            if (!field) continue
+            cost += multiplier
+
+            // every level of a list multiplies the cost of everything beneath it
+            let size = 1
+            let fieldType = getNullableType(field.type)
+            while (isListType(fieldType)) {
+                size *= options.listSizes?.[type.name]?.[name] ?? options.defaultListSize ?? 10
+                fieldType = getNullableType(fieldType.ofType)
+            }
+            const namedType = getNamedType(fieldType)
+            if (selection.selectionSet && isCompositeType(namedType))
+                cost += getSelectionSetCost(
+                    schema,
+                    fragments,
+                    options,
+                    namedType,
+                    selection.selectionSet,
+                    multiplier * size,
+                    visitedFragments
+                )
+        } else {
+            // fragments on other types are counted too, as the type isn't known until execution
+            let fragment: InlineFragmentNode | FragmentDefinitionNode | undefined = undefined
+            let visited = visitedFragments
+            if (selection.kind === "FragmentSpread") {
+                const name = selection.name.value
+                // fragments spread within themselves fail validation
+                if (visitedFragments.has(name)) continue
+                fragment = fragments[name]
+                visited = new Set([...visitedFragments, name])
+            } else fragment = selection
+            if (!fragment) continue
+
+            const { typeCondition, selectionSet } = fragment
+            const fragmentType = typeCondition ? schema.getType(typeCondition.name.value) : type
+            if (isCompositeType(fragmentType))
+                cost += getSelectionSetCost(
+                    schema,
+                    fragments,
+                    options,
+                    fragmentType,
+                    selectionSet,
+                    multiplier,
+                    visited
+                )
+        }
+    }
+    return cost
+}
+
+/**
+ * Whether an operation is executed as a patched subscription, being a subscription or a live query.
+ */
+const isStreamed = (operation: OperationDefinitionNode) =>
+    String(operation.operation) === "subscription" ||
+    (String(operation.operation) === "query" &&
+        !!operation.directives?.some(directive => directive.name.value === "live"))
+
+// the cost of an operation in a document
+const getCost = (
+    schema: GraphQLSchema,
+    document: DocumentNode,
+    operation: OperationDefinitionNode,
+    options: CostOptions
+) => {
+    const rootType =
+        String(operation.operation) === "subscription"
+            ? schema.getSubscriptionType()
+            : String(operation.operation) === "mutation"
+            ? schema.getMutationType()
+            : schema.getQueryType()
+    if (!rootType) return 0
+
+    const fragments = {} as { [name: string]: FragmentDefinitionNode }
+    for (const definition of document.definitions)
+        if (definition.kind === "FragmentDefinition") fragments[definition.name.value] = definition
+    return getSelectionSetCost(
+        schema,
+        fragments,
+        options,
+        rootType,
+        operation.selectionSet,
+        1,
+        new Set()
+    )
+}
+
+/**
+ * Estimate the cost of an operation before it is executed, which is the number of fields it would
+ * subscribe to at once, given the expected sizes of its lists. Fields skipped by `@skip` or `@include`
+ * are counted, as are fragments on every type of an abstract field.
+ * @param schema The schema.
+ * @param document The document containing the operation.
+ * @param options The expected sizes of lists.
+ * @param operationName The name of the operation, if the document contains more than one.
+ * @returns The estimated cost, or 0 if the operation doesn't exist.
+ */
+export const getOperationCost = (
+    schema: GraphQLSchema,
+    document: DocumentNode,
+    options: CostOptions = {},
+    operationName?: string
+): number => {
+    const operation = getOperationAST(document, operationName)
+    return operation ? getCost(schema, document, operation, options) : 0
+}
+
+/**
+ * Create a validation rule which rejects subscriptions, (and live queries), whose estimated cost is
+ * greater than the maximum, to be passed to `validate` alongside GraphQL.js' `specifiedRules`.
+ * @example validate(schema, document, [...specifiedRules, createCostLimitRule({ maxCost: 1000 })])
+ * @param options The maximum cost, and the expected sizes of lists.
+ * @returns The validation rule.
+ */
+export const createCostLimitRule = (options: CostLimitOptions): ValidationRule => context => ({
+    OperationDefinition(operation) {
+        if (!isStreamed(operation)) return
+        const cost = getCost(context.getSchema(), context.getDocument(), operation, options)
+        if (cost > options.maxCost)
+            context.reportError(
+                new GraphQLError(
+                    `The operation has a cost of ${cost}, which is more than the maximum of ${options.maxCost}.`,
+                    operation
+                )
+            )
+    },
+})
@@ -0,0 +1,128 @@
+import { ExecutionResult } from "graphql"
+import { isArray, isObject, toAsyncIterableIterator } from "./util"
+
+/**
+ * A change to a single path of a result. `data` replaces whatever was previously at `path`.
+ */
+export interface DeltaPatch {
+    path: (string | number)[]
+    data: any
+}
+
+/**
+ * Any result after the first, when sending deltas. Holds only the paths which have changed since the
+ * previous result, along with the errors of the new result, if there are any.
+ */
+export interface DeltaResult {
+    incremental: DeltaPatch[]
+    errors?: ExecutionResult["errors"]
+}
+
+const isPlainObject = (x: any): x is { [key: string]: any } => isObject(x) && !isArray(x)
+
+/**
+ * Find the smallest set of patches which turns one result's data into another's.
+ * @param prev The previous data.
+ * @param next The new data.
+ * @param path The path of the data, (used when recursing)
+ * @returns The patches, in the order they should be applied.
+ */
+export const diffData = (prev: any, next: any, path: (string | number)[] = []): DeltaPatch[] => {
+    if (prev === next) return []
+
+    if (isArray(prev) && isArray(next) && prev.length === next.length) {
+        return next.reduce(
+            (patches: DeltaPatch[], v, i) => [...patches, ...diffData(prev[i], v, [...path, i])],
+            []
+        )
+    }
+
+    if (isPlainObject(prev) && isPlainObject(next)) {
+        const keys = Object.keys(next)
+        // a field can only disappear if the object has been replaced entirely
+        if (keys.length === Object.keys(prev).length && keys.every(key => key in prev)) {
+            return keys.reduce(
+                (patches: DeltaPatch[], key) => [
+                    ...patches,
+                    ...diffData(prev[key], next[key], [...path, key]),
+                ],
+                []
+            )
+        }
+    }
+
+    return [{ path, data: next }]
+}
+
+/**
+ * Returns a new async iterator of execution results, which yields the first result in full, and each
+ * result after that as only the paths which have changed. Results which change nothing are skipped.
+ * @param it The original iterator of execution results, e.g. as returned by GraphQL.js' `subscribe`.
+ * @returns The iterator of deltas.
+ */
+export const toDeltaAsyncIterator = (
+    it: AsyncIterator<ExecutionResult>
+): AsyncIterableIterator<ExecutionResult | DeltaResult> => {
+    let prev: ExecutionResult | undefined
+
+    return toAsyncIterableIterator<ExecutionResult | DeltaResult>({
+        async next() {
+            while (true) {
+                const result = await it.next()
+                if (result.done) return result
+
+                const next = result.value
+                if (!prev) {
+                    prev = next
+                    return { value: next, done: false }
+                }
+
+                const incremental = diffData(prev.data, next.data)
+                const errorsChanged =
+                    JSON.stringify(prev.errors ?? []) !== JSON.stringify(next.errors ?? [])
+                prev = next
+                if (incremental.length === 0 && !errorsChanged) continue
+
+                return {
+                    value: { incremental, ...(next.errors ? { errors: next.errors } : {}) },
+                    done: false,
+                }
+            }
+        },
+        async return(value?: any) {
+            if (it.return) await it.return(value)
+            return { value, done: true }
+        },
+    })
+}
+
+/**
+ * Set the value at a path, copying every object along the path rather than changing it.
+ */
+const setIn = (o: any, path: (string | number)[], data: any): any => {
+    if (path.length === 0) return data
+    const [key, ...rest] = path
+    const copy = isArray(o) ? [...o] : { ...o }
+    copy[key as any] = setIn(isObject(o) ? (o as any)[key] : undefined, rest, data)
+    return copy
+}
+
+/**
+ * Apply a result received from `toDeltaAsyncIterator` to the previous result, for use on the client.
+ * The previous result is left unchanged.
+ * @param prev The previous result, or `undefined` if this is the first result.
+ * @param result The new result, either a full result, or a delta.
+ * @returns The new full result.
+ */
+export const applyDelta = (
+    prev: ExecutionResult | undefined,
+    result: ExecutionResult | DeltaResult
+): ExecutionResult => {
+    if (!("incremental" in result)) return result
+
+    const data = result.incremental.reduce(
+        (data, { path, data: value }) => setIn(data, path, value),
+        prev?.data
+    )
+    return { data, ...(result.errors ? { errors: result.errors } : {}) }
+}
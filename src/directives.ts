@@ -0,0 +1,63 @@
+import { GraphQLResolveInfo, getDirectiveValues } from "graphql"
+import { locateError } from "./errors"
+
+/**
+ * Everything known about a field at the point a directive is applied to its iterator.
+ */
+export interface DirectiveContext<TContext = any> {
+    /** The coerced arguments of the directive. */
+    directiveArgs: { [key: string]: any }
+    /** The value of the parent field. */
+    parent: any
+    /** The arguments of the field. */
+    args: { [key: string]: any }
+    context: TContext
+    info: GraphQLResolveInfo
+}
+
+/**
+ * Transforms the iterator of a field which has a given directive applied to it.
+ *
+ * Returning `null` vetoes the field, in which case it is never subscribed to, and resolves to `null`.
+ */
+export type DirectiveHandler<TContext = any> = (
+    it: AsyncIterableIterator<any>,
+    directive: DirectiveContext<TContext>
+) => AsyncIterableIterator<any> | null
+
+/**
+ * Pass a field's iterator through the handlers of every directive applied to the field, in the order
+ * in which they are written.
+ * @param it The field's iterator.
+ * @param handlers The directive handlers, keyed by directive name.
+ * @param field The surrounding information of the field.
+ * @returns The transformed iterator, or `null` if any handler vetoed the field.
+ * @throws A GraphQLError located at the field, if a directive with a handler isn't on the schema.
+ */
+export const applyDirectives = (
+    it: AsyncIterableIterator<any>,
+    handlers: { [name: string]: DirectiveHandler },
+    field: Omit<DirectiveContext, "directiveArgs">
+): AsyncIterableIterator<any> | null => {
+    const { info } = field
+    const applied = new Set<string>()
+    let result: AsyncIterableIterator<any> | null = it
+
+    for (const node of info.fieldNodes) {
+        for (const { name } of node.directives ?? []) {
+            const handler = handlers[name.value]
+            if (!handler || applied.has(name.value)) continue
+            applied.add(name.value)
+
+            const directive = info.schema.getDirective(name.value)
+            if (!directive)
+                throw locateError(`Directive @${name.value} does not exist on the schema.`, info)
+            const directiveArgs = getDirectiveValues(directive, node, info.variableValues) ?? {}
+
+            result = handler(result, { ...field, directiveArgs })
+            if (result === null) return null
+        }
+    }
+
+    return result
+}
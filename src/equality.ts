@@ -0,0 +1,68 @@
+import { GraphQLOutputType, getNamedType, getNullableType } from "graphql"
+import { isArray, isObject } from "./util"
+import { isListType, isAssembledValue, getAssembledFieldType, getConcreteTypeName } from "./type"
+
+/**
+ * Decides whether two values of the same GraphQL type are equal, in which case no update is sent.
+ */
+export type EqualityFunction = (a: any, b: any) => boolean
+
+/**
+ * Structural equality for plain JavaScript values, as used for scalars without an equality function.
+ */
+export const isDeepEqual: EqualityFunction = (a, b) => {
+    if (a === b) return true
+    if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+    if (a instanceof Error && b instanceof Error) return a.message === b.message
+    if (!isObject(a) || !isObject(b)) return false
+    if (isArray(a) !== isArray(b)) return false
+
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+    if (aKeys.length !== bKeys.length) return false
+    return aKeys.every(key => key in b && isDeepEqual((a as any)[key], (b as any)[key]))
+}
+
+/**
+ * Create a function which decides whether two values of a field are equal, using the given equality
+ * functions for their types, and structural equality otherwise.
+ *
+ * Values assembled by patched subscriptions are never changed once yielded, so identical values are
+ * always equal.
+ * @param equality Equality functions, keyed by type name.
+ * @returns The equality function, which takes the GraphQL type of the values being compared.
+ */
+export const createIsEqual = (equality: { [typeName: string]: EqualityFunction } = {}) => {
+    const isEqual = (a: any, b: any, type: GraphQLOutputType): boolean => {
+        if (a === b) return true
+        if (a == null || b == null) return false
+        if (a instanceof Error || b instanceof Error) return isDeepEqual(a, b)
+
+        const nullableType = getNullableType(type)
+        if (isListType(nullableType)) {
+            return (
+                isArray(a) &&
+                isArray(b) &&
+                a.length === b.length &&
+                a.every((v, i) => isEqual(v, b[i], nullableType.ofType))
+            )
+        }
+
+        // only values of the type itself are compared by its equality function, never lists of them
+        const custom = equality[getNamedType(type).name]
+        if (custom) return custom(a, b)
+
+        if (isAssembledValue(a) && isAssembledValue(b)) {
+            if (getConcreteTypeName(a) !== getConcreteTypeName(b)) return false
+            const keys = Object.keys(a).filter(key => getAssembledFieldType(a, key))
+            return keys.every(key => {
+                const fieldType = getAssembledFieldType(a, key)!
+                return key in b && isEqual(a[key], b[key], fieldType)
+            })
+        }
+
+        return isDeepEqual(a, b)
+    }
+
+    return isEqual
+}
@@ -0,0 +1,103 @@
+import { GraphQLError, GraphQLResolveInfo, locatedError, responsePathAsArray } from "graphql"
+
+/**
+ * Convert anything thrown while subscribing to a field into a GraphQLError located at that field.
+ *
+ * Unless the error policy says otherwise, errors are never thrown out of a patched subscription. They
+ * take the place of the field's value, so that GraphQL.js reports them, and nulls the nearest nullable
+ * field, when it executes the payload.
+ * @param err The thrown value.
+ * @param info The GraphQLResolveInfo of the field.
+ * @returns The located error, or the original error if it has already been located.
+ */
+export const locateError = (err: any, info: GraphQLResolveInfo): GraphQLError =>
+    locatedError(
+        err instanceof Error ? err : new Error(String(err)),
+        info.fieldNodes,
+        responsePathAsArray(info.path)
+    )
+
+// errors which end the whole subscription, whatever the error policy
+const fatalErrors = new WeakSet<GraphQLError>()
+
+/**
+ * Locate an error at a field, marking it as ending the whole subscription, whatever the error policy.
+ * @param err The thrown value.
+ * @param info The GraphQLResolveInfo of the field.
+ * @returns The located error, to be thrown.
+ */
+export const locateFatalError = (err: any, info: GraphQLResolveInfo): GraphQLError => {
+    const error = locateError(err, info)
+    fatalErrors.add(error)
+    return error
+}
+
+/**
+ * Whether an error ends the whole subscription, whatever the error policy.
+ */
+export const isFatalError = (err: any) => fatalErrors.has(err)
+
+/**
+ * What happens when a field of a patched subscription fails, whether its subscribe resolver or iterator
+ * throws, its resolve function throws, or its type can't be resolved.
+ *
+ * `null`, (the default), reports the error and nulls the nearest nullable field, while the rest of the
+ * subscription carries on. `fail` ends the whole subscription with the error. `retry` subscribes to a
+ * failed subscribe resolver again after `ms` milliseconds, multiplied by `factor`, (by default 2), after
+ * each consecutive failure. Once it has failed `attempts` times in a row, or if anything else fails, the
+ * `fallback` policy, (by default `null`), is followed instead.
+ *
+ * Failures count as being in a row unless the field stayed subscribed to for `healthyMs` milliseconds
+ * in between, (by default, the longest delay between attempts), whether or not it yielded any values.
+ */
+export type ErrorPolicy =
+    | {
+          type: "null" | "fail"
+      }
+    | {
+          type: "retry"
+          attempts: number
+          ms: number
+          factor?: number
+          fallback?: "null" | "fail"
+          healthyMs?: number
+      }
+
+/**
+ * Get how long to wait before subscribing to a failed field again.
+ * @param policy The error policy.
+ * @param failures How many times in a row the field has failed, including this time.
+ * @returns The delay in milliseconds, or undefined if the field shouldn't be subscribed to again.
+ */
+export const getRetryDelay = (policy: ErrorPolicy | undefined, failures: number) =>
+    policy?.type === "retry" && failures <= policy.attempts
+        ? policy.ms * (policy.factor ?? 2) ** (failures - 1)
+        : undefined
+
+/**
+ * Get how long a field must stay subscribed to, without failing, for its earlier failures to be
+ * forgotten.
+ * @param policy The error policy.
+ */
+export const getHealthyTime = (policy: ErrorPolicy | undefined) =>
+    policy?.type === "retry"
+        ? policy.healthyMs ?? policy.ms * (policy.factor ?? 2) ** Math.max(policy.attempts - 1, 0)
+        : 0
+
+/**
+ * Locate an error at the field which failed, and throw it if the error policy fails the subscription.
+ * @param err The thrown value.
+ * @param info The GraphQLResolveInfo of the field.
+ * @param policy The error policy.
+ * @returns The located error, to take the place of the field's value.
+ */
+export const reportError = (
+    err: any,
+    info: GraphQLResolveInfo,
+    policy: ErrorPolicy | undefined
+): GraphQLError => {
+    const error = locateError(err, info)
+    const fails = policy?.type === "retry" ? policy.fallback === "fail" : policy?.type === "fail"
+    if (fails || isFatalError(error)) throw error
+    return error
+}
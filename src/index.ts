@@ -1 +1,30 @@
 export { patchResolverMap as patchFieldSubscriptions } from "./patch"
+export { patchSchema } from "./schema"
+export { executeLive, liveDirectiveTypeDefs } from "./live"
+export type { PatchOptions } from "./options"
+export type { DirectiveHandler, DirectiveContext } from "./directives"
+export { coalesceDirectives, coalesceDirectiveTypeDefs } from "./coalesce"
+export type { CoalescePolicy } from "./coalesce"
+export { toDeltaAsyncIterator, applyDelta } from "./delta"
+export type { DeltaPatch, DeltaResult } from "./delta"
+export { toSnapshotAsyncIterator } from "./snapshot"
+export { isDeepEqual } from "./equality"
+export type { EqualityFunction } from "./equality"
+export {
+    graphqlWsOptions,
+    graphqlSseOptions,
+    apolloSubscriptionsPlugin,
+    apolloServerOptions,
+} from "./servers"
+export type { ServerOptions } from "./servers"
+export { fromPubSub, fromEventEmitter } from "./sources"
+export type { PubSub, Emitter, Topic, SourceOptions } from "./sources"
+export { createMulticastRegistry } from "./multicast"
+export type { MulticastRegistry, MulticastOptions } from "./multicast"
+export type { BatchFunction } from "./batch"
+export type { BufferOptions } from "./util"
+export type { ErrorPolicy } from "./errors"
+export type { AuthorizeOptions, AuthorizeFunction, AuthorizeDirectiveFunction } from "./authorize"
+export { createCostLimitRule, getOperationCost } from "./cost"
+export type { CostOptions, CostLimitOptions } from "./cost"
+export type { IteratorLimits } from "./limits"
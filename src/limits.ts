@@ -0,0 +1,68 @@
+import { GraphQLResolveInfo } from "graphql"
+import { isObject } from "./util"
+import { Scope } from "./scope"
+
+/**
+ * Limits on how many upstream iterators may run at once, each of which is opened by subscribing to a
+ * field, whether it is an operation's root field, a nested field, or a field of a keyed object or list
+ * element which is kept running between updates. A field which would exceed a limit is nulled with an
+ * error, (or fails the subscription, as decided by the error policy), until it is next subscribed to.
+ */
+export interface IteratorLimits {
+    /** The most iterators a single operation may run at once. */
+    perOperation?: number
+    /**
+     * The most iterators every operation sharing a context may run at once, e.g. every subscription
+     * of a connection sharing its context.
+     */
+    perContext?: number
+}
+
+interface Counter {
+    count: number
+}
+
+// counters for each operation, keyed by whatever identifies it, and for each context
+const operationCounters = new WeakMap<object, Counter>()
+const contextCounters = new WeakMap<object, Counter>()
+
+const getCounter = (counters: WeakMap<object, Counter>, key: object) => {
+    if (!counters.has(key)) counters.set(key, { count: 0 })
+    return counters.get(key)!
+}
+
+/**
+ * Count an upstream iterator towards the limits until its scope is closed, as an iterator waiting on a
+ * value which never comes can't finish once it has been returned.
+ * @param limits The iterator limits.
+ * @param context The context value.
+ * @param operation Identifies the operation the iterator is opened for, and is shared by all of its
+ * iterators.
+ * @param scope The scope the iterator runs in.
+ * @throws An error if opening the iterator would exceed a limit, in which case it isn't counted.
+ */
+export const countIterator = (
+    limits: IteratorLimits,
+    context: any,
+    operation: object,
+    scope: Scope
+) => {
+    const counters = [] as [Counter, number, string][]
+    if (limits.perOperation !== undefined)
+        counters.push([getCounter(operationCounters, operation), limits.perOperation, "operation"])
+    if (limits.perContext !== undefined && isObject(context))
+        counters.push([getCounter(contextCounters, context), limits.perContext, "context"])
+
+    const over = counters.find(([counter, limit]) => counter.count >= limit)
+    if (over) {
+        const [, limit, per] = over
+        throw new Error(
+            `Too many fields subscribed to at once, as at most ${limit} may be per ${per}.`
+        )
+    }
+
+    for (const [counter] of counters) counter.count++
+    scope.onClose.then(() => {
+        for (const [counter] of counters) counter.count--
+    })
+}
@@ -0,0 +1,136 @@
+import {
+    ExecutionArgs,
+    ExecutionResult,
+    FieldNode,
+    FragmentDefinitionNode,
+    GraphQLResolveInfo,
+    defaultFieldResolver,
+    execute,
+    getOperationAST,
+} from "graphql"
+import { getArgumentValues, getVariableValues } from "graphql/execution/values"
+import { getSubfields } from "./ast"
+import { getLiveResolver, setLiveOperation } from "./patch"
+import { setAssembledValue, updateAssembledValue, toResolvableValue } from "./type"
+import { createScope, scopeAsyncIterator } from "./scope"
+import { locateError } from "./errors"
+import { toSnapshotAsyncIterator } from "./snapshot"
+import { mapAsyncIterator, mergeAsyncIterators, toAsync } from "./util"
+
+/**
+ * The definition of the `@live` directive, to be included in the schema's type definitions.
+ */
+export const liveDirectiveTypeDefs = `
+    directive @live on QUERY
+`
+
+/**
+ * Execute an operation like GraphQL.js' `execute`, except that queries with the `@live` directive
+ * return an async iterator of results, which yields a new result whenever any field with a subscribe
+ * resolver changes, just as a subscription would. Each result is a snapshot, as made by
+ * `toSnapshotAsyncIterator`.
+ *
+ * Every other operation is executed by `execute` as normal.
+ * @param args The execution args, as taken by `execute`.
+ * @returns The result, or an iterator of results for live queries.
+ */
+export const executeLive = async (
+    args: ExecutionArgs
+): Promise<AsyncIterableIterator<ExecutionResult> | ExecutionResult> => {
+    const { schema, document, rootValue, contextValue, variableValues, operationName } = args
+    const operation = getOperationAST(document, operationName)
+    const queryType = schema.getQueryType()
+    const isLive =
+        operation &&
+        String(operation.operation) === "query" &&
+        operation.directives?.some(directive => directive.name.value === "live")
+    if (!operation || !queryType || !isLive) return await execute(args)
+
+    const coerced = getVariableValues(
+        schema,
+        operation.variableDefinitions ?? [],
+        variableValues ?? {}
+    )
+    if (coerced.errors) return { errors: coerced.errors }
+
+    // the operation is marked as live by cloning it, so that executing the same document by any other
+    // means still executes it as normal
+    const liveOperation = { ...operation }
+    const liveDocument = {
+        ...document,
+        definitions: document.definitions.map(d => (d === operation ? liveOperation : d)),
+    }
+    setLiveOperation(liveOperation)
+
+    const fragments = {} as { [name: string]: FragmentDefinitionNode }
+    for (const definition of document.definitions)
+        if (definition.kind === "FragmentDefinition") fragments[definition.name.value] = definition
+    // the parts of GraphQLResolveInfo shared by every field
+    const operationInfo = {
+        schema,
+        fragments,
+        rootValue,
+        operation: liveOperation,
+        variableValues: coerced.coerced,
+    } as GraphQLResolveInfo
+
+    // the operation's selection set is treated as that of a field, so its root fields can be collected
+    const rootFields = getSubfields(
+        [{ selectionSet: operation.selectionSet } as FieldNode],
+        queryType,
+        operationInfo
+    )
+
+    const scope = createScope()
+    const fieldIterators = [] as AsyncIterableIterator<[string, any]>[]
+    for (const [key, fieldNodes] of rootFields) {
+        const fieldName = fieldNodes[0].name.value
+        const field = queryType.getFields()[fieldName]
+        if (!field) continue
+
+        const info: GraphQLResolveInfo = {
+            ...operationInfo,
+            fieldName,
+            fieldNodes,
+            returnType: field.type,
+            parentType: queryType,
+            path: { prev: undefined, key, typename: queryType.name },
+        }
+
+        const fieldIt = (async function* () {
+            try {
+                const fieldArgs = getArgumentValues(field, fieldNodes[0], coerced.coerced)
+                const live = getLiveResolver(field.resolve)
+                // fields which haven't been patched can't change
+                if (!live) {
+                    const resolve = field.resolve ?? defaultFieldResolver
+                    yield await toAsync(resolve(rootValue, fieldArgs, contextValue, info))
+                    return
+                }
+                const it = await toAsync(live(rootValue, fieldArgs, contextValue, info))
+                for await (const payload of scope.own(it) as AsyncIterableIterator<any>)
+                    yield payload[key]
+            } catch (err) {
+                yield locateError(err, info)
+            }
+        })()
+        fieldIterators.push(mapAsyncIterator(fieldIt, value => [key, value] as [string, any]))
+    }
+
+    const results = (async function* () {
+        // the root value is assembled just as any other value is, so every field resolves by response key
+        let payload = {} as { [key: string]: any }
+        setAssembledValue(payload, queryType.name)
+        for await (const [key, value] of scope.own(mergeAsyncIterators(fieldIterators))) {
+            payload = updateAssembledValue(payload, { [key]: value })
+            if (Object.keys(payload).length < fieldIterators.length) continue
+            yield await execute({
+                ...args,
+                document: liveDocument,
+                rootValue: toResolvableValue(payload, schema),
+            })
+        }
+    })()
+
+    return toSnapshotAsyncIterator(scopeAsyncIterator(results, scope))
+}
@@ -0,0 +1,194 @@
+import { GraphQLResolveInfo } from "graphql"
+import { PromiseOrValue } from "./compat"
+import {
+    isObject,
+    isAsyncIterator,
+    toAsync,
+    toAsyncIterableIterator,
+    stableStringify,
+} from "./util"
+
+/**
+ * Options for a multicast registry.
+ */
+export interface MulticastOptions {
+    /**
+     * Derive the identity of a parent value. Fields of parents without an identity aren't shared. By
+     * default, a parent's identity is its `id`, so root fields, (whose parent is the root value), aren't
+     * shared.
+     * @param parent The parent value.
+     * @param typeName The name of the parent's type.
+     */
+    identify?: (parent: any, typeName: string) => string | number | undefined | null
+}
+
+/**
+ * Shares the subscribe resolvers of identical fields between every subscription using the registry,
+ * (usually every client of a server). Fields are identical if they have the same parent type, field
+ * name, parent identity, and args.
+ *
+ * Subscribe resolvers which depend on the context shouldn't be shared, as only the first subscriber's
+ * context is ever used.
+ */
+export interface MulticastRegistry {
+    /**
+     * Subscribe to a field, sharing its subscribe resolver with every other subscriber to an identical
+     * field. The subscribe resolver is only called when there are no other subscribers, and is returned
+     * once there are none left. Late subscribers receive the latest value straight away.
+     * @param parent The parent value.
+     * @param args The field's coerced args.
+     * @param info The GraphQLResolveInfo of the field.
+     * @param subscribe Calls the field's subscribe resolver.
+     * @returns An iterator of the shared values, or the result of the subscribe resolver if the field
+     * can't be shared.
+     */
+    subscribe(
+        parent: any,
+        args: { [arg: string]: any },
+        info: GraphQLResolveInfo,
+        subscribe: () => PromiseOrValue<any>
+    ): Promise<any>
+    /** The number of upstream subscribe resolvers currently shared. */
+    readonly size: number
+}
+
+interface Subscriber {
+    values: IteratorResult<any>[]
+    waiting?: { res: (result: IteratorResult<any>) => void; rej: (err: any) => void }
+    error?: { error: any }
+}
+
+interface Upstream {
+    subscribers: Set<Subscriber>
+    latest?: { value: any }
+    /** Returns the upstream iterator, once it has been started. */
+    stop: () => void
+}
+
+/**
+ * Create a registry which shares identical field subscriptions, to be passed to
+ * `patchFieldSubscriptions` or `patchSchema` as the `multicast` option.
+ * @param options How parent values are identified.
+ * @returns The registry.
+ */
+export const createMulticastRegistry = ({
+    identify = parent => (isObject(parent) ? (parent as any).id : undefined),
+}: MulticastOptions = {}): MulticastRegistry => {
+    const upstreams = new Map<string, Upstream>()
+
+    const send = (subscriber: Subscriber, result: IteratorResult<any>) => {
+        const waiting = subscriber.waiting
+        subscriber.waiting = undefined
+        if (waiting) waiting.res(result)
+        else subscriber.values.push(result)
+    }
+
+    const fail = (subscriber: Subscriber, err: any) => {
+        const waiting = subscriber.waiting
+        subscriber.waiting = undefined
+        if (waiting) waiting.rej(err)
+        else subscriber.error = { error: err }
+    }
+
+    const start = async (key: string, upstream: Upstream, it: AsyncIterator<any>) => {
+        try {
+            while (upstreams.get(key) === upstream) {
+                const result = await it.next()
+                if (upstreams.get(key) !== upstream) break
+                if (result.done) {
+                    upstreams.delete(key)
+                    for (const subscriber of upstream.subscribers) send(subscriber, result)
+                    break
+                }
+                upstream.latest = { value: result.value }
+                for (const subscriber of upstream.subscribers) send(subscriber, result)
+            }
+        } catch (err) {
+            if (upstreams.get(key) === upstream) upstreams.delete(key)
+            for (const subscriber of upstream.subscribers) fail(subscriber, err)
+        }
+    }
+
+    const join = (key: string, upstream: Upstream) => {
+        const subscriber: Subscriber = {
+            values: upstream.latest ? [{ value: upstream.latest.value, done: false }] : [],
+        }
+        upstream.subscribers.add(subscriber)
+
+        return toAsyncIterableIterator({
+            async next() {
+                if (subscriber.values.length) return subscriber.values.shift()!
+                if (subscriber.error) throw subscriber.error.error
+                if (!upstream.subscribers.has(subscriber)) return { value: undefined, done: true }
+                return new Promise<IteratorResult<any>>(
+                    (res, rej) => (subscriber.waiting = { res, rej })
+                )
+            },
+            async return(value?: any) {
+                upstream.subscribers.delete(subscriber)
+                subscriber.values = []
+                if (subscriber.waiting) send(subscriber, { value: undefined, done: true })
+                // the last subscriber to leave closes the upstream, unless someone subscribes again
+                // straight away, as happens whenever the subscriber's parent is replaced
+                setTimeout(() => {
+                    if (upstream.subscribers.size === 0 && upstreams.get(key) === upstream) {
+                        upstreams.delete(key)
+                        upstream.stop()
+                    }
+                }, 0)
+                return { value, done: true }
+            },
+        })
+    }
+
+    return {
+        async subscribe(parent, args, info, subscribe) {
+            const id = identify(parent, info.parentType.name)
+            if (id == null) return await toAsync(subscribe())
+            const { parentType, fieldName } = info
+            const key = [
+                parentType.name,
+                fieldName,
+                stableStringify(id),
+                stableStringify(args),
+            ].join(":")
+
+            const existing = upstreams.get(key)
+            if (existing) return join(key, existing)
+
+            let it: AsyncIterator<any> | undefined
+            let stopped = false
+            const upstream: Upstream = {
+                subscribers: new Set(),
+                stop: () => {
+                    stopped = true
+                    it?.return?.().catch(() => {})
+                },
+            }
+            upstreams.set(key, upstream)
+            const subscriber = join(key, upstream)
+
+            try {
+                const result = await toAsync(subscribe())
+                if (!isAsyncIterator(result)) {
+                    // values which aren't iterators never change, so there's nothing left to share
+                    if (upstreams.get(key) === upstream) upstreams.delete(key)
+                    await subscriber.return!()
+                    const value = { [info.fieldName]: result }
+                    for (const other of upstream.subscribers) send(other, { value, done: false })
+                    return result
+                }
+                it = result as AsyncIterator<any>
+                if (stopped) upstream.stop()
+                else start(key, upstream, it)
+            } catch (err) {
+                if (upstreams.get(key) === upstream) upstreams.delete(key)
+                for (const subscriber of upstream.subscribers) fail(subscriber, err)
+            }
+            return subscriber
+        },
+        get size() {
+            return upstreams.size
+        },
+    }
+}
@@ -0,0 +1,76 @@
+import { DirectiveHandler } from "./directives"
+import { CoalescePolicy } from "./coalesce"
+import { EqualityFunction } from "./equality"
+import { MulticastRegistry } from "./multicast"
+import { BatchFunction } from "./batch"
+import { BufferOptions } from "./util"
+import { ErrorPolicy } from "./errors"
+import { AuthorizeOptions } from "./authorize"
+import { IteratorLimits } from "./limits"
+
+/**
+ * Options which change how patched resolvers behave when they are part of a subscription.
+ */
+export interface PatchOptions {
+    /**
+     * Handlers for user-defined executable directives, keyed by directive name. Any field in a
+     * patched subscription with one of these directives has its iterator passed through the handler
+     * before it is merged into its parent.
+     */
+    directives?: { [name: string]: DirectiveHandler }
+    /**
+     * How updates to a subscription are combined before being sent. By default, every update to any
+     * nested field is sent immediately. Individual fields can be coalesced with the `@throttle` and
+     * `@debounce` directives, once `coalesceDirectives` are included in the `directives` option.
+     */
+    coalesce?: CoalescePolicy
+    /**
+     * Equality functions, keyed by type name, used to decide whether a field's new value is the same
+     * as its previous one. Updates which change nothing are not sent. Types without an equality
+     * function are compared structurally.
+     */
+    equality?: { [typeName: string]: EqualityFunction }
+    /**
+     * A registry, created with `createMulticastRegistry`, which shares the subscribe resolvers of
+     * identical fields between subscriptions, rather than calling them once per subscription.
+     */
+    multicast?: MulticastRegistry
+    /**
+     * Batch functions, keyed by type name then field name, which replace the resolve functions of
+     * fields whenever they are resolved as part of a subscription. Every field resolved for the same
+     * update, with the same args, is resolved by a single call.
+     */
+    batch?: { [typeName: string]: { [fieldName: string]: BatchFunction } }
+    /**
+     * How the updates of a field's children are buffered while the subscription isn't being consumed,
+     * e.g. when a client is slow to receive them. By default, children are paused until their last
+     * update has been taken.
+     */
+    buffer?: BufferOptions
+    /**
+     * What happens when a field fails. By default, its error is reported and the nearest nullable
+     * field is nulled, while the rest of the subscription carries on.
+     */
+    errors?: ErrorPolicy
+    /**
+     * Key functions, keyed by type name, which identify objects. Whenever a field's value is replaced
+     * by an object with the same key, the fields of the object with subscribe resolvers keep running,
+     * rather than being subscribed to again.
+     *
+     * Whenever a list is replaced, elements with the same key as before keep their nested
+     * subscriptions, as long as they are otherwise unchanged, rather than being subscribed to again by
+     * position. Elements without a key, (or with the same key as an earlier element), are subscribed
+     * to by position.
+     */
+    keys?: { [typeName: string]: (value: any) => unknown }
+    /**
+     * How the nested fields of a subscription are authorized, by field or by schema directive. Fields
+     * are authorized before they are subscribed to, and optionally before each of their updates.
+     */
+    authorize?: AuthorizeOptions
+    /**
+     * Limits on how many fields may be subscribed to at once, per operation and per context. By
+     * default, there are none.
+     */
+    limits?: IteratorLimits
+}
@@ -1,14 +1,46 @@
-import { IResolvers, IFieldResolver, IObjectTypeResolver } from "graphql-tools"
+import {
+    IResolvers,
+    IFieldResolver,
+    IFieldResolverOptions,
+    IObjectTypeResolver,
+} from "@graphql-tools/utils"
 import {
     FieldNode,
     GraphQLInputObjectType,
     isLeafType,
     isObjectType,
+    isScalarType,
     GraphQLResolveInfo,
+    GraphQLError,
+    GraphQLList,
+    GraphQLOutputType,
+    GraphQLObjectType,
+    OperationDefinitionNode,
+    responsePathAsArray,
+    defaultFieldResolver,
+    getNullableType,
 } from "graphql"
 import { getOperation } from "./ast"
-import { resolveType, GraphQLConcreteType } from "./type"
+import {
+    resolveType,
+    GraphQLConcreteType,
+    getConcreteTypeName,
+    setAssembledValue,
+    updateAssembledValue,
+    toResolvableValue,
+    fromResolvableValue,
+} from "./type"
 import { descendFields } from "./args"
+import { PatchOptions } from "./options"
+import { applyDirectives } from "./directives"
+import { Scope, createScope, scopeAsyncIterator } from "./scope"
+import { reportError, getRetryDelay, getHealthyTime, isFatalError } from "./errors"
+import { coalesceAsyncIterator } from "./coalesce"
+import { createIsEqual, isDeepEqual } from "./equality"
+import { PromiseOrValue } from "./compat"
+import { Batcher, createBatcher } from "./batch"
+import { authorizeAsyncIterator } from "./authorize"
+import { countIterator } from "./limits"
 import {
     predictAsyncIterator,
     mergeAsyncIterators,
@@ -18,44 +50,101 @@ import {
     isArray,
     toAsyncIterableIterator,
     cutAsyncIterator,
+    isObject,
+    shareAsyncIterator,
+    stableStringify,
+    assertBufferOptions,
 } from "./util"
 
-// Can't get a proper import for some reason, this is a hack
-type IFieldResolverOptions = Exclude<
-    IObjectTypeResolver[keyof IObjectTypeResolver],
-    IFieldResolver<any, any>
->
+// the infos of fields resolved while assembling a subscription value, which the patched resolve
+// function resolves as normal, ignoring any subscription-related functionality
+const resolvingAsNormal = new WeakSet<GraphQLResolveInfo>()
+
+// the functions created by patchResolver, so that patching a resolver twice changes nothing
+const patchedResolvers = new WeakSet<Function>()
+
+// the patched resolve functions of fields, mapped to the functions which subscribe to them in live queries
+const liveResolvers = new WeakMap<Function, IFieldResolver<any, any>>()
+
+// the operations being executed as live queries, whose fields resolve just as they do in subscriptions
+const liveOperations = new WeakSet<OperationDefinitionNode>()
+
+/**
+ * Get the function which subscribes to a field in a live query, if the field has been patched.
+ * @param resolve The field's resolve function.
+ */
+export const getLiveResolver = (resolve: Function | undefined) =>
+    resolve && liveResolvers.get(resolve)
+
+// identifies the operation a field is subscribed to for. A subscription has a single root field, while
+// each root field of a live query is subscribed to separately, so is identified by its operation,
+// which is cloned for every execution
+const getOperationKey = (info: GraphQLResolveInfo): object => {
+    if (liveOperations.has(info.operation)) return info.operation
+    let path = info.path
+    while (path.prev) path = path.prev
+    return path
+}
 
-// when passed as a field of the parent value in the patched resolve function, ignores any subscription-related functionality
-const RESOLVE_AS_NORMAL = Symbol('resolve_as_normal')
+/**
+ * Mark an operation as being executed as a live query. The mark is never removed, so the operation
+ * should be a clone made for a single execution.
+ */
+export const setLiveOperation = (operation: OperationDefinitionNode) => {
+    liveOperations.add(operation)
+}
 
 /**
  * Given a native resolver map, add field subscription functionality.
  * @param resolverMap The native resolver map.
+ * @param options Options changing the behaviour of the patched subscriptions.
  * @returns An equivalent resolver map, that allows child subscriptions to update their parents.
  */
-export const patchResolverMap = (resolverMap: IResolvers<any, any>): IResolvers<any, any> => {
+export const patchResolverMap = (
+    resolverMap: IResolvers<any, any>,
+    options: PatchOptions = {}
+): IResolvers<any, any> => {
     const types: IResolvers = {}
     for (const type of Object.keys(resolverMap)) {
+        // custom scalars have no fields to patch
+        if (isScalarType(resolverMap[type])) {
+            types[type] = resolverMap[type]
+            continue
+        }
+
         const fields: IResolvers[keyof IResolvers] = {}
 
         for (const field of Object.keys(resolverMap[type])) {
-            if (field.startsWith("__")) {
-                // @ts-ignore
-                fields[field] = resolverMap[type][field]
-                continue
-            }
             // @ts-ignore
             const resolver = resolverMap[type][
                 field
             ] as IObjectTypeResolver[keyof IObjectTypeResolver]
+
+            if (field === "__resolveType") {
+                // @ts-ignore
+                fields[field] = patchTypeResolver(resolver)
+                continue
+            } else if (field === "__isTypeOf") {
+                // @ts-ignore
+                fields[field] = patchIsTypeOf(resolver, type)
+                continue
+            } else if (
+                field.startsWith("__") ||
+                // enum values, rather than field resolvers
+                !(resolver instanceof Function || isObject(resolver))
+            ) {
+                // @ts-ignore
+                fields[field] = resolver
+                continue
+            }
+
             const newResolver: IFieldResolverOptions =
                 resolver instanceof Function
                     ? { resolve: resolver as IFieldResolver<any, any> }
                     : resolver
 
             // @ts-ignore
-            fields[field] = patchResolver(newResolver)
+            fields[field] = patchResolver(newResolver, options)
         }
 
         types[type] = fields
@@ -63,180 +152,582 @@ export const patchResolverMap = (resolverMap: IResolvers<any, any>): IResolvers<
     return types
 }
 
+/**
+ * Patches an abstract type's `__resolveType`, so that values assembled by patched subscriptions resolve
+ * to the concrete type they were assembled as.
+ * @param f The original `__resolveType` function.
+ * @returns The patched `__resolveType` function.
+ */
+export const patchTypeResolver = <T extends (value: any, ...rest: any[]) => any>(f: T): T =>
+    ((value: any, ...rest: any[]) => getConcreteTypeName(value) ?? f(value, ...rest)) as T
+
+/**
+ * Patches an object type's `__isTypeOf`, so that values assembled by patched subscriptions are only of
+ * the concrete type they were assembled as.
+ * @param f The original `__isTypeOf` function.
+ * @param typeName The name of the object type.
+ * @returns The patched `__isTypeOf` function.
+ */
+export const patchIsTypeOf = <T extends (value: any, ...rest: any[]) => any>(
+    f: T,
+    typeName: string
+): T =>
+    ((value: any, ...rest: any[]) => {
+        const concreteTypeName = getConcreteTypeName(value)
+        return concreteTypeName !== undefined ? concreteTypeName === typeName : f(value, ...rest)
+    }) as T
+
 /**
  * Patches a specific type resolver with the field subscription functionality.
  * @param o The resolver options.
+ * @param options Options changing the behaviour of the patched subscriptions, which can't be given
+ * if the resolver has already been patched.
  * @returns Patched resolver options.
  */
-export const patchResolver = (o: IFieldResolverOptions): IFieldResolverOptions => {
+export const patchResolver = (
+    o: IFieldResolverOptions,
+    options: PatchOptions = {}
+): IFieldResolverOptions => {
+    if ([o.resolve, o.subscribe].some(f => f && patchedResolvers.has(f))) {
+        // the options of the first patch are kept, so any given now would be silently ignored
+        if (Object.values(options).some(v => v !== undefined))
+            throw new Error(
+                "Options can't be given for resolvers which have already been patched, so they should be given when first patching them."
+            )
+        return o
+    }
+    if (options.buffer) assertBufferOptions(options.buffer)
+
     const resolve: IFieldResolver<any, any> = (parent, args, ctx, info) => {
         const op = getOperation(info)
-        if (op === "subscription" && !(RESOLVE_AS_NORMAL in parent))
-            return parent[info.fieldName]
-        else {
-            if (parent && RESOLVE_AS_NORMAL in parent) delete parent[RESOLVE_AS_NORMAL]
-            return o.resolve!(parent, args, ctx, info)
-        }
+        const isStream = op === "subscription" || liveOperations.has(info.operation)
+        if (isStream && !resolvingAsNormal.has(info))
+            return toResolvableValue(fromResolvableValue(parent)[info.path.key], info.schema)
+        else return (o.resolve ?? defaultFieldResolver)(parent, args, ctx, info)
     }
 
-    const subscribe: IFieldResolver<any, any> = (parent, args, ctx, info) => {
+    // subscribes to the field, given a function returning its values in the subscription format
+    const subscribeTo = (
+        source: () => PromiseOrValue<any>,
+        parent: any,
+        args: { [arg: string]: any },
+        ctx: any,
+        info: GraphQLResolveInfo
+    ) => {
+        // everything started on behalf of this subscription is closed along with it
+        const scope = createScope()
         const it = (async function* () {
-            yield* cleanGraphQLSubscriptionFormat(
-                await toAsync(o.subscribe!(parent, args, ctx, info)),
-                info.fieldName
-            )
-        })()
-        const r = patchSubscribeResolver(ctx, info, it)
-
-        return (async function* () {
-            for await (const v of r) {
-                yield v // debugging iterators is hard
+            // the field's upstream counts towards the limits for as long as the subscription runs
+            if (options.limits) countIterator(options.limits, ctx, getOperationKey(info), scope)
+            // how many times in a row the field has failed, without staying healthy in between
+            let failures = 0
+            while (!scope.closed) {
+                const subscribedAt = Date.now()
+                try {
+                    for await (const value of cleanGraphQLSubscriptionFormat(
+                        scope.own(await toAsync(source())),
+                        info.fieldName
+                    ))
+                        yield value
+                    return
+                } catch (err) {
+                    if (Date.now() - subscribedAt >= getHealthyTime(options.errors)) failures = 0
+                    const delay = getRetryDelay(options.errors, ++failures)
+                    if (delay === undefined || isFatalError(err)) throw err
+                    await new Promise(res => setTimeout(res, delay))
+                }
             }
         })()
+
+        // the source is only called once the field has been authorized
+        const authorizedIt = options.authorize
+            ? authorizeAsyncIterator(it, options.authorize, { parent, args, context: ctx, info })
+            : it
+        const r = patchSubscribeResolver(ctx, info, authorizedIt, options, scope)
+        // nested fields are coalesced along with the operation's root field, so only it is coalesced
+        const coalesced =
+            options.coalesce && !info.path.prev ? coalesceAsyncIterator(r, options.coalesce) : r
+
+        return scopeAsyncIterator(coalesced, scope)
+    }
+
+    const subscribe: IFieldResolver<any, any> = (parent, args, ctx, info) => {
+        const subscribeOnce = () => o.subscribe!(parent, args, ctx, info)
+        return subscribeTo(
+            () =>
+                options.multicast
+                    ? options.multicast.subscribe(parent, args, info, subscribeOnce)
+                    : subscribeOnce(),
+            parent,
+            args,
+            ctx,
+            info
+        )
     }
 
+    // fields without a subscribe resolver are resolved once, and their subfields are subscribed to
+    const live: IFieldResolver<any, any> = (parent, args, ctx, info) =>
+        o.subscribe
+            ? subscribe(parent, args, ctx, info)
+            : subscribeTo(
+                  () => (o.resolve ?? defaultFieldResolver)(parent, args, ctx, info),
+                  parent,
+                  args,
+                  ctx,
+                  info
+              )
+
+    patchedResolvers.add(resolve)
+    patchedResolvers.add(subscribe)
+    liveResolvers.set(resolve, live)
     return {
         ...o,
-        ...("resolve" in o ? { resolve } : {}),
+        // subscription payloads are keyed by response key, so the field must always resolve from them
+        ...("resolve" in o || "subscribe" in o ? { resolve } : {}),
         ...("subscribe" in o ? { subscribe } : {}),
     }
 }
 
+// the elements of lists which have a key, and so keep their subtrees between values of the list for as
+// long as they're unchanged
+interface KeyedElement {
+    value: any
+    scope: Scope
+    subscribe: () => AsyncIterableIterator<any>
+    /** The last link of the element's path, whose index is updated whenever the element moves. */
+    path: { prev: GraphQLResolveInfo["path"]; key: number; typename: undefined }
+}
+
+// the subscribed fields of objects with a key, which keep running between values of the object's field
+// for as long as the object's key is unchanged
+interface RetainedField {
+    scope: Scope
+    subscribe: () => AsyncIterableIterator<any>
+}
+
+// the keyed objects and keyed list elements kept by a value, by path
+interface RetainedValues {
+    objects: Map<string, { key: string; fields: Map<string, RetainedField> }>
+    elements: Map<string, Map<string, KeyedElement>>
+}
+
+/**
+ * What is kept between the values of a field with an iterator of its own. Fields which are resolved
+ * again for every value of their parent share their parent's retention, so that what is beneath them is
+ * kept too, rather than being lost along with the field's previous resolution.
+ */
+interface Retention {
+    /** The scope of the field which owns the retention, in which everything kept runs. */
+    scope: Scope
+    /** What the field's previous value kept, which is released once its current value is ready. */
+    prev: RetainedValues
+    /** What the field's current value keeps. */
+    curr: RetainedValues
+}
+
+const createRetainedValues = (): RetainedValues => ({ objects: new Map(), elements: new Map() })
+
+// identifies a value by its path, including its position among any lists
+const getPathKey = (info: GraphQLResolveInfo, arrayPath: number[]) =>
+    [...responsePathAsArray(info.path), ...arrayPath].join(".")
+
 const patchSubscribeResolver = <TContext, TReturn = any>(
     ctx: TContext,
     info: GraphQLResolveInfo,
-    iterator: AsyncIterableIterator<TReturn>
-) =>
-    mapAsyncIterator(
+    iterator: AsyncIterableIterator<TReturn>,
+    options: PatchOptions,
+    scope: Scope,
+    batcher?: Batcher,
+    inheritedRetention?: Retention
+): AsyncIterableIterator<any> => {
+    const isEqual = createIsEqual(options.equality)
+    // the batcher of the update which produced this field, which is shared by the field's first value
+    let inheritedBatcher = batcher
+    const retention = inheritedRetention ?? {
+        scope,
+        prev: createRetainedValues(),
+        curr: createRetainedValues(),
+    }
+
+    // identifies an object by the key function of its type, if it has one
+    const getObjectKey = (type: GraphQLObjectType, value: any) => {
+        const id = options.keys?.[type.name]?.(value)
+        return id == null ? undefined : `${type.name}:${stableStringify(id)}`
+    }
+
+    return mapAsyncIterator(
         (async function* () {
-            for await (const [value, { awaitNextValue }] of predictAsyncIterator(iterator)) {
-                type ConcreteType = Exclude<GraphQLConcreteType, GraphQLInputObjectType>
-
-                const iterateValue = async function* (
-                    value: any,
-                    concreteType: ConcreteType,
-                    arrayPath: number[] = []
-                ) {
-                    if (concreteType === null) {
-                        yield null
-                        return
-                    } else if (isLeafType(concreteType)) {
-                        yield value
-                        return
-                    } else if (isObjectType(concreteType)) {
-                        const fieldArgs = descendFields(concreteType, info, [])
-                        const fieldIterators = [] as AsyncIterableIterator<[string, any]>[]
-                        const fieldResolvers = concreteType.getFields()
-
-                        // create iterators for all subfields
-                        for (const [field, { args, info }] of fieldArgs) {
-                            if (!(field in fieldResolvers))
-                                throw `${field} not a field of ${concreteType.name}, cannot resolve.`
-                            const it = mapAsyncIterator(
-                                (async function* () {
-                                    const resolver = fieldResolvers[field]
-                                    if ("subscribe" in resolver && resolver.subscribe) {
-                                        yield* cleanGraphQLSubscriptionFormat(
-                                            await toAsync(
-                                                resolver.subscribe(value, args, ctx, info)
-                                            ),
-                                            field
-                                        )
-                                    } else if ("resolve" in resolver && resolver.resolve) {
-                                        value[RESOLVE_AS_NORMAL] = true
-                                        const resolvedValue = await toAsync(
-                                            resolver.resolve(value, args, ctx, info)
-                                        )
-                                        yield* cleanGraphQLSubscriptionFormat(
-                                            patchSubscribeResolver(
-                                                ctx,
-                                                info,
-                                                cleanGraphQLSubscriptionFormat(resolvedValue, field)
-                                            ),
-                                            field
-                                        )
-                                    } else
-                                        yield* cleanGraphQLSubscriptionFormat(
-                                            patchSubscribeResolver(
-                                                ctx,
-                                                info,
-                                                toAsyncIterableIterator(value[field] ?? null)
-                                            ), 
-                                            field
-                                        )
-                                })(),
-                                v => [field, v] as [string, any]
-                            )
-                            fieldIterators.push(it)
-                        }
+            // the last value yielded, as values which haven't changed aren't yielded again
+            const empty = Symbol("empty")
+            let prevValue: any = empty
+            const hasChanged = (value: any) => {
+                if (prevValue !== empty && isEqual(prevValue, value, info.returnType)) return false
+                prevValue = value
+                return true
+            }
+
+            try {
+                for await (const [value, { awaitNextValue }] of predictAsyncIterator(iterator)) {
+                    // every iterator started for this value is closed once it is replaced
+                    const cycle = scope.child()
+                    // every field resolved for this value is batched together
+                    const cycleBatcher = inheritedBatcher ?? createBatcher()
+                    inheritedBatcher = undefined
+                    if (!inheritedRetention) {
+                        retention.prev = retention.curr
+                        retention.curr = createRetainedValues()
+                    }
+                    const { prev, curr } = retention
+                    // subscriptions which this value hasn't retained are closed once it's ready, by the
+                    // field which owns the retention
+                    let released = !!inheritedRetention
+                    const releaseUnretained = () => {
+                        if (released) return
+                        released = true
+                        for (const [path, { fields }] of prev.objects)
+                            for (const [key, field] of fields)
+                                if (curr.objects.get(path)?.fields.get(key) !== field)
+                                    field.scope.close()
+                        for (const [path, elements] of prev.elements)
+                            for (const [key, element] of elements)
+                                if (curr.elements.get(path)?.get(key) !== element)
+                                    element.scope.close()
+                    }
+                    type ConcreteType = Exclude<GraphQLConcreteType, GraphQLInputObjectType>
+
+                    const iterateValue = async function* (
+                        value: any,
+                        concreteType: ConcreteType,
+                        type: GraphQLOutputType,
+                        arrayPath: number[] = []
+                    ): AsyncIterableIterator<any> {
+                        if (concreteType === null) {
+                            yield null
+                            return
+                        } else if (concreteType instanceof GraphQLError) {
+                            yield concreteType
+                            return
+                        } else if (isLeafType(concreteType)) {
+                            yield value
+                            return
+                        } else if (isObjectType(concreteType)) {
+                            const fieldArgs = descendFields(concreteType, info, arrayPath)
+                            const fieldIterators = [] as AsyncIterableIterator<[string, any]>[]
+                            const fieldResolvers = concreteType.getFields()
+
+                            // an object with the same key as the last value's keeps its subscriptions
+                            const objectKey = getObjectKey(concreteType, value)
+                            const path = getPathKey(info, arrayPath)
+                            const prevObject = prev.objects.get(path)
+                            const retained =
+                                objectKey === undefined
+                                    ? undefined
+                                    : { key: objectKey, fields: new Map<string, RetainedField>() }
+                            if (retained) curr.objects.set(path, retained)
+
+                            // create iterators for all subfields
+                            for (const [key, { args, info, error }] of fieldArgs) {
+                                const field = info.fieldName
+                                const resolver = fieldResolvers[field]
+
+                                let retainedField: RetainedField | undefined
+                                if (retained && resolver.subscribe && !error) {
+                                    if (prevObject && prevObject.key === objectKey)
+                                        retainedField = prevObject.fields.get(key)
+                                    if (!retainedField || retainedField.scope.closed) {
+                                        const fieldScope = retention.scope.child()
+                                        const subscribe = resolver.subscribe
+                                        const it = (async function* () {
+                                            yield* cleanGraphQLSubscriptionFormat(
+                                                fieldScope.own(
+                                                    await toAsync(subscribe(value, args, ctx, info))
+                                                ),
+                                                key
+                                            )
+                                        })()
+                                        retainedField = {
+                                            scope: fieldScope,
+                                            subscribe: shareAsyncIterator(fieldScope.own(it)),
+                                        }
+                                    }
+                                    retained.fields.set(key, retainedField)
+                                }
+
+                                const fieldIt = (async function* () {
+                                    // the value may have been replaced before the field was reached
+                                    if (cycle.closed) return
+                                    if (error) {
+                                        yield error
+                                        return
+                                    }
+                                    const batch = options.batch?.[concreteType.name]?.[field]
+                                    try {
+                                        if (retainedField) {
+                                            yield* cycle.own(retainedField.subscribe())
+                                        } else if ("subscribe" in resolver && resolver.subscribe) {
+                                            yield* cleanGraphQLSubscriptionFormat(
+                                                cycle.own(
+                                                    await toAsync(
+                                                        resolver.subscribe(value, args, ctx, info)
+                                                    )
+                                                ),
+                                                key
+                                            )
+                                        } else if (batch || resolver.resolve) {
+                                            resolvingAsNormal.add(info)
+                                            const resolvedValue = await (batch
+                                                ? cycleBatcher.load(batch, value, args, ctx, info)
+                                                : toAsync(
+                                                      resolver.resolve!(value, args, ctx, info)
+                                                  ))
+                                            yield* cleanGraphQLSubscriptionFormat(
+                                                patchSubscribeResolver(
+                                                    ctx,
+                                                    info,
+                                                    cleanGraphQLSubscriptionFormat(
+                                                        cycle.own(resolvedValue),
+                                                        field
+                                                    ),
+                                                    options,
+                                                    cycle,
+                                                    cycleBatcher,
+                                                    retention
+                                                ),
+                                                key
+                                            )
+                                        } else
+                                            yield* cleanGraphQLSubscriptionFormat(
+                                                patchSubscribeResolver(
+                                                    ctx,
+                                                    info,
+                                                    toAsyncIterableIterator(
+                                                        cycle.own(value[field] ?? null)
+                                                    ),
+                                                    options,
+                                                    cycle,
+                                                    cycleBatcher,
+                                                    retention
+                                                ),
+                                                key
+                                            )
+                                    } catch (err) {
+                                        yield reportError(err, info, options.errors)
+                                    }
+                                })()
 
-                        const empty = Symbol("empty")
-                        const currValue = [...fieldArgs.keys()].reduce(
-                            (a, x) => ({ ...a, [x]: empty }),
-                            {} as {
-                                [key: string]: any
+                                const fieldContext = { parent: value, args, context: ctx, info }
+                                // a denied field closes whatever is kept running on its behalf
+                                const release = () => {
+                                    if (retainedField) {
+                                        retainedField.scope.close()
+                                        retained!.fields.delete(key)
+                                    }
+                                    const fieldPath = getPathKey(info, [])
+                                    const isBeneath = (path: string) =>
+                                        path === fieldPath || path.startsWith(`${fieldPath}.`)
+                                    for (const [path, { fields }] of curr.objects) {
+                                        if (!isBeneath(path)) continue
+                                        for (const field of fields.values()) field.scope.close()
+                                        curr.objects.delete(path)
+                                    }
+                                    for (const [path, elements] of curr.elements) {
+                                        if (!isBeneath(path)) continue
+                                        for (const element of elements.values())
+                                            element.scope.close()
+                                        curr.elements.delete(path)
+                                    }
+                                }
+                                // a field is only subscribed to once it has been authorized
+                                const authorizedIt = options.authorize
+                                    ? authorizeAsyncIterator(
+                                          fieldIt,
+                                          options.authorize,
+                                          fieldContext,
+                                          release
+                                      )
+                                    : fieldIt
+
+                                // a vetoed field is never subscribed to, and resolves to null
+                                const directedIt =
+                                    applyDirectives(
+                                        authorizedIt,
+                                        options.directives ?? {},
+                                        fieldContext
+                                    ) ?? toAsyncIterableIterator(null)
+
+                                fieldIterators.push(
+                                    mapAsyncIterator(directedIt, v => [key, v] as [string, any])
+                                )
                             }
-                        )
-                        let hasAllFields = false
-
-                        // update value based on all subfields
-                        for await (const [field, value] of cutAsyncIterator(
-                            mergeAsyncIterators(...fieldIterators),
-                            awaitNextValue()
-                        )) {
-                            currValue[field] = value
-                            if (!hasAllFields) {
-                                hasAllFields = [...fieldArgs.keys()].every(
-                                    key => key in currValue && currValue[key] !== empty
+
+                            const empty = Symbol("empty")
+                            let currValue = [...fieldArgs.keys()].reduce(
+                                (a, x) => ({ ...a, [x]: empty }),
+                                {} as {
+                                    [key: string]: any
+                                }
+                            )
+                            setAssembledValue(
+                                currValue,
+                                concreteType.name,
+                                new Map(
+                                    [...fieldArgs].map(([key, { info }]) => [key, info.returnType])
                                 )
+                            )
+                            let hasAllFields = false
+
+                            // an object whose only fields are meta fields, (or skipped fields), has
+                            // nothing to wait on
+                            if (fieldArgs.size === 0) {
+                                yield Object.freeze(currValue)
+                                return
+                            }
+
+                            // update value based on all subfields
+                            for await (const [key, value] of cutAsyncIterator(
+                                mergeAsyncIterators(fieldIterators, options.buffer),
+                                awaitNextValue()
+                            )) {
+                                const fieldType = fieldArgs.get(key)!.info.returnType
+                                const prev = currValue[key]
+                                if (prev !== empty && isEqual(prev, value, fieldType)) continue
+                                currValue = updateAssembledValue(currValue, { [key]: value })
+                                if (!hasAllFields) {
+                                    hasAllFields = [...fieldArgs.keys()].every(
+                                        key => key in currValue && currValue[key] !== empty
+                                    )
+                                }
+                                if (hasAllFields) yield currValue
                             }
-                            if (hasAllFields) yield currValue
-                        }
 
-                        return
-                    } else if (isArray(concreteType)) {
-                        if (concreteType.length === 0) {
-                            yield []
                             return
-                        }
+                        } else if (isArray(concreteType)) {
+                            if (concreteType.length === 0) {
+                                yield Object.freeze([])
+                                return
+                            }
 
-                        const iterators = [] as AsyncIterableIterator<[number, any]>[]
-                        for (const [i, type] of concreteType.entries()) {
-                            iterators[i] = mapAsyncIterator(
-                                iterateValue(value[i], type as ConcreteType, [
-                                    ...arrayPath,
-                                    i,
-                                ]),
-                                v => [i, v]
-                            )
-                        }
+                            const elementType = (getNullableType(type) as GraphQLList<any>).ofType
+                            const path = getPathKey(info, arrayPath)
+                            const prevElements = prev.elements.get(path) ?? new Map()
+                            const elements = new Map<string, KeyedElement>()
+                            curr.elements.set(path, elements)
+                            const iterators = [] as AsyncIterableIterator<[number, any]>[]
+                            for (const [i, type] of concreteType.entries()) {
+                                const elementPath = [...arrayPath, i]
+                                const key = isObjectType(type)
+                                    ? getObjectKey(type, value[i])
+                                    : undefined
+
+                                // elements without a unique key are subscribed to by position
+                                if (key === undefined || elements.has(key)) {
+                                    iterators[i] = mapAsyncIterator(
+                                        iterateValue(
+                                            value[i],
+                                            type as ConcreteType,
+                                            elementType,
+                                            elementPath
+                                        ),
+                                        v => [i, v]
+                                    )
+                                    continue
+                                }
 
-                        const empty = Symbol("empty")
-                        const currValue = [...concreteType.keys()].map(() => empty) as any[]
-                        let hasAllFields = false
-
-                        // update value based on all subfields
-                        for await (const [field, value] of cutAsyncIterator(
-                            mergeAsyncIterators(...iterators),
-                            awaitNextValue()
-                        )) {
-                            currValue[field] = value
-                            if (!hasAllFields) {
-                                hasAllFields = currValue.every(value => value !== empty)
+                                let element = prevElements.get(key)
+                                if (element && isDeepEqual(element.value, value[i])) {
+                                    // errors beneath the element are located at its current index
+                                    element.path.key = i
+                                } else {
+                                    // the element's subtree lives until it leaves the list, or changes
+                                    const elementScope = retention.scope.child()
+                                    const path = {
+                                        prev: arrayPath.reduce(
+                                            (prev, key) => ({ prev, key, typename: undefined }),
+                                            info.path
+                                        ),
+                                        key: i,
+                                        typename: undefined,
+                                    }
+                                    const elementInfo = { ...info, returnType: elementType, path }
+                                    const elementIt = patchSubscribeResolver(
+                                        ctx,
+                                        elementInfo,
+                                        toAsyncIterableIterator(value[i]),
+                                        options,
+                                        elementScope,
+                                        cycleBatcher
+                                    )
+                                    element = {
+                                        value: value[i],
+                                        scope: elementScope,
+                                        // each value is keyed by the element's index when it was
+                                        // yielded, which may have changed since
+                                        subscribe: shareAsyncIterator(
+                                            elementScope.own(
+                                                mapAsyncIterator(
+                                                    elementIt,
+                                                    v => Object.values(v)[0]
+                                                )
+                                            )
+                                        ),
+                                        path,
+                                    }
+                                }
+                                elements.set(key, element)
+                                iterators[i] = mapAsyncIterator(element.subscribe(), v => [i, v])
                             }
-                            if (hasAllFields) yield currValue
+
+                            const empty = Symbol("empty")
+                            let currValue = [...concreteType.keys()].map(() => empty) as any[]
+                            setAssembledValue(currValue)
+                            let hasAllFields = false
+
+                            // update value based on all subfields
+                            for await (const [field, value] of cutAsyncIterator(
+                                mergeAsyncIterators(iterators, options.buffer),
+                                awaitNextValue()
+                            )) {
+                                const prev = currValue[field]
+                                if (prev !== empty && isEqual(prev, value, elementType)) continue
+                                currValue = updateAssembledValue(currValue, { [field]: value })
+                                if (!hasAllFields) {
+                                    hasAllFields = currValue.every(value => value !== empty)
+                                }
+                                if (hasAllFields) yield currValue
+                            }
+                            return
                         }
-                        return
+
+                        yield null
                     }
 
-                    yield null
+                    const type = info.returnType
+                    try {
+                        // an error in place of the value, e.g. as the field was denied, fails it
+                        if (value instanceof Error) throw value
+                        const concreteType = (await resolveType(
+                            value,
+                            ctx,
+                            info,
+                            type
+                        )) as ConcreteType
+                        for await (const v of iterateValue(value, concreteType, type)) {
+                            releaseUnretained()
+                            if (hasChanged(v)) yield v
+                        }
+                    } catch (err) {
+                        const error = reportError(err, info, options.errors)
+                        if (hasChanged(error)) yield error
+                    } finally {
+                        releaseUnretained()
+                        cycle.close()
+                    }
                 }
-
-                const type = info.returnType
-                const concreteType = (await resolveType(value, ctx, info, type)) as ConcreteType
-
-                yield* iterateValue(value, concreteType, [])
+            } catch (err) {
+                // the field's own iterator failed, so its error is the field's final value
+                yield reportError(err, info, options.errors)
             }
         })(),
-        (x: any) => ({ [info.fieldName]: x })
+        (x: any) => ({ [info.path.key]: x })
     )
+}
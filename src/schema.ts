@@ -0,0 +1,44 @@
+import { GraphQLSchema, GraphQLInterfaceType, GraphQLUnionType, GraphQLObjectType } from "graphql"
+import { mapSchema, MapperKind, IFieldResolverOptions } from "@graphql-tools/utils"
+import { patchResolver, patchTypeResolver, patchIsTypeOf } from "./patch"
+import { PatchOptions } from "./options"
+
+/**
+ * Given an executable schema, add field subscription functionality to every field with a `resolve` or
+ * `subscribe` function, along with every type resolver. This is equivalent to building the schema from
+ * a resolver map patched with `patchFieldSubscriptions`.
+ * @param schema The executable schema, which is left unchanged.
+ * @param options Options changing the behaviour of the patched subscriptions, which can't be given
+ * if the schema has already been patched.
+ * @returns A new schema, that allows child subscriptions to update their parents.
+ */
+export const patchSchema = (schema: GraphQLSchema, options: PatchOptions = {}): GraphQLSchema => {
+    return mapSchema(schema, {
+        [MapperKind.OBJECT_FIELD]: fieldConfig => {
+            const { resolve, subscribe } = fieldConfig
+            if (!resolve && !subscribe) return fieldConfig
+
+            // only the functions the field has are patched, just as with a resolver map
+            const o: IFieldResolverOptions = {
+                ...(resolve ? { resolve } : {}),
+                ...(subscribe ? { subscribe } : {}),
+            }
+            return { ...fieldConfig, ...patchResolver(o, options) } as typeof fieldConfig
+        },
+        [MapperKind.OBJECT_TYPE]: type => {
+            if (!type.isTypeOf) return type
+            const config = type.toConfig()
+            return new GraphQLObjectType({
+                ...config,
+                isTypeOf: patchIsTypeOf(type.isTypeOf, type.name),
+            })
+        },
+        [MapperKind.ABSTRACT_TYPE]: type => {
+            if (!type.resolveType) return type
+            const resolveType = patchTypeResolver(type.resolveType)
+            return type instanceof GraphQLInterfaceType
+                ? new GraphQLInterfaceType({ ...type.toConfig(), resolveType })
+                : new GraphQLUnionType({ ...type.toConfig(), resolveType })
+        },
+    })
+}
@@ -0,0 +1,123 @@
+import { isAsyncIterator, toAsyncIterableIterator } from "./util"
+
+/**
+ * Tracks every iterator started on behalf of a subscription, (or some part of one), so that they can
+ * all be closed together when the client unsubscribes, or when their parent value is replaced.
+ *
+ * Async generators can't be interrupted while they are awaiting, so rather than relying on `return()`
+ * travelling down through every intermediate iterator, the iterators that matter are closed directly.
+ */
+export interface Scope {
+    /** Whether the scope has been closed. */
+    readonly closed: boolean
+    /** Resolves when the scope is closed. */
+    readonly onClose: Promise<void>
+    /**
+     * Register an iterator to be closed with the scope. The iterator's `return()` is called at most
+     * once, whether by the scope or otherwise. Values which aren't iterators are returned unchanged.
+     * @returns The iterator, whose `return()` is now idempotent.
+     */
+    own<T>(it: T): T
+    /** Create a scope which is closed whenever this scope is. */
+    child(): Scope
+    /** Close the scope, calling `return()` on every iterator it owns, and closing all child scopes. */
+    close(): void
+}
+
+/**
+ * Create a new scope.
+ */
+export const createScope = (): Scope => {
+    let closed = false
+    let resolveClose: () => void
+    const onClose = new Promise<void>(res => (resolveClose = res))
+    const owned = new Set<() => void>()
+    const children = new Set<Scope>()
+
+    const scope: Scope = {
+        get closed() {
+            return closed
+        },
+        onClose,
+        own<T>(v: T): T {
+            if (!isAsyncIterator(v)) return v
+            const it = (v as unknown) as AsyncIterator<any>
+
+            let returned = false
+            const close = () => {
+                if (returned) return
+                returned = true
+                owned.delete(close)
+                if (it.return) Promise.resolve().then(() => it.return!()).catch(() => {})
+            }
+
+            if (closed) close()
+            else owned.add(close)
+
+            return (toAsyncIterableIterator({
+                next: (...args: [] | [any]) => it.next(...args),
+                async return(value?: any) {
+                    close()
+                    return { value, done: true }
+                },
+                async throw(err?: any) {
+                    close()
+                    throw err
+                },
+            }) as unknown) as T
+        },
+        child() {
+            const child = createScope()
+            if (closed) child.close()
+            else {
+                children.add(child)
+                child.onClose.then(() => children.delete(child))
+            }
+            return child
+        },
+        close() {
+            if (closed) return
+            closed = true
+            for (const child of [...children]) child.close()
+            for (const close of [...owned]) close()
+            resolveClose()
+        },
+    }
+
+    return scope
+}
+
+/**
+ * Bind an iterator to a scope. The resulting iterator finishes as soon as the scope is closed, even if
+ * the original iterator is still waiting on a value, and closes the scope when it is returned.
+ * @param it The original iterator.
+ * @param scope The scope.
+ * @returns The bound iterator.
+ */
+export const scopeAsyncIterator = <T>(
+    it: AsyncIterableIterator<T>,
+    scope: Scope
+): AsyncIterableIterator<T> => {
+    const closed = scope.onClose.then(() => ({ value: undefined, done: true } as IteratorResult<T>))
+
+    return toAsyncIterableIterator<T>({
+        async next() {
+            if (scope.closed) return { value: undefined, done: true }
+            try {
+                const next = it.next()
+                // once the scope is closed, nothing is waiting on the result
+                next.catch(() => {})
+                const result = await Promise.race([next, closed])
+                if (result.done) scope.close()
+                return result
+            } catch (err) {
+                scope.close()
+                throw err
+            }
+        },
+        async return(value?: any) {
+            scope.close()
+            return { value, done: true }
+        },
+    })
+}
@@ -0,0 +1,127 @@
+import { GraphQLSchema } from "graphql"
+import { patchSchema } from "./schema"
+import { PatchOptions } from "./options"
+import { Scope, createScope } from "./scope"
+import { isAsyncIterator } from "./util"
+import { toSnapshotAsyncIterator } from "./snapshot"
+
+/**
+ * Options for the server integrations. Any options besides `schema` and `context` change how the
+ * patched subscriptions behave.
+ */
+export interface ServerOptions<TContext> extends PatchOptions {
+    /**
+     * The schema, which is patched if it hasn't been already. Patch options can't be given for a
+     * schema which has already been patched.
+     */
+    schema: GraphQLSchema
+    /** The context, (or function creating it), passed to the server unchanged. */
+    context?: TContext
+}
+
+// every result of a subscription is a snapshot, while results which aren't subscriptions are left to
+// the server
+const toSnapshots = <T>(result: T): T | undefined =>
+    isAsyncIterator(result)
+        ? ((toSnapshotAsyncIterator((result as unknown) as AsyncIterator<any>) as unknown) as T)
+        : undefined
+
+/**
+ * Create the options for `graphql-ws`' `useServer`. Every subscription is closed as soon as the client
+ * completes it, or its connection closes, and its results are snapshots, as made by
+ * `toSnapshotAsyncIterator`.
+ *
+ * Options given to `useServer` after these replace them, so any `onOperation` or `onClose` hooks of
+ * your own should call these too.
+ * @example useServer(graphqlWsOptions({ schema, context }), wsServer)
+ * @param options The schema, context, and patch options.
+ * @returns The options for `useServer`.
+ */
+export const graphqlWsOptions = <TContext>({
+    schema,
+    context,
+    ...options
+}: ServerOptions<TContext>) => {
+    const connections = new WeakMap<object, Scope>()
+    const getConnectionScope = (ctx: object) => {
+        if (!connections.has(ctx)) connections.set(ctx, createScope())
+        return connections.get(ctx)!
+    }
+
+    return {
+        schema: patchSchema(schema, options),
+        ...(context !== undefined ? { context } : {}),
+        onOperation: <T>(ctx: object, message: unknown, args: unknown, result: T) => {
+            const snapshots = toSnapshots(result)
+            return snapshots && getConnectionScope(ctx).own(snapshots)
+        },
+        onClose: (ctx: object) => {
+            connections.get(ctx)?.close()
+            connections.delete(ctx)
+        },
+    }
+}
+
+/**
+ * Create the options for `graphql-sse`'s `createHandler`. Every subscription is closed as soon as the
+ * client completes it, or its event stream closes, as `graphql-sse` returns the subscription's
+ * iterator, which closes every iterator started on its behalf. Its results are snapshots, as made by
+ * `toSnapshotAsyncIterator`.
+ *
+ * Options given to `createHandler` after these replace them, so any `onOperation` hook of your own
+ * should call this one too.
+ * @example createHandler(graphqlSseOptions({ schema, context }))
+ * @param options The schema, context, and patch options.
+ * @returns The options for `createHandler`.
+ */
+export const graphqlSseOptions = <TContext>({
+    schema,
+    context,
+    ...options
+}: ServerOptions<TContext>) => ({
+    schema: patchSchema(schema, options),
+    ...(context !== undefined ? { context } : {}),
+    onOperation: <T>(ctx: unknown, req: unknown, args: unknown, result: T) => toSnapshots(result),
+})
+
+/**
+ * Create an Apollo Server 4 plugin which disposes of a subscription server when Apollo Server is
+ * stopped, closing every subscription it serves.
+ * @param cleanup The value returned by `useServer`, or anything else with a `dispose()` method.
+ * @returns The plugin.
+ */
+export const apolloSubscriptionsPlugin = (cleanup: { dispose(): void | Promise<void> }) => ({
+    async serverWillStart() {
+        return {
+            async drainServer() {
+                await cleanup.dispose()
+            },
+        }
+    },
+})
+
+/**
+ * Create the options for an Apollo Server 4 which serves queries and mutations alongside a `graphql-ws`
+ * server serving subscriptions, as Apollo Server 4 doesn't serve subscriptions itself. Both serve the
+ * same patched schema, and stopping Apollo Server disposes of the `graphql-ws` server, closing every
+ * subscription it serves. The context of queries and mutations is given to Apollo Server's own
+ * integration, e.g. `expressMiddleware`, as usual.
+ *
+ * Options given to `ApolloServer` after these replace them, so any plugins of your own should be given
+ * alongside these.
+ * @example
+ * const wsOptions = graphqlWsOptions({ schema, context })
+ * const cleanup = useServer(wsOptions, wsServer)
+ * const { plugins, ...options } = apolloServerOptions(wsOptions, cleanup)
+ * const server = new ApolloServer({ ...options, plugins: [...plugins, ApolloServerPluginDrainHttpServer({ httpServer })] })
+ * @param wsOptions The options given to `useServer`, as created by `graphqlWsOptions`.
+ * @param cleanup The value returned by `useServer`.
+ * @returns The options for `ApolloServer`.
+ */
+export const apolloServerOptions = (
+    wsOptions: { schema: GraphQLSchema },
+    cleanup: { dispose(): void | Promise<void> }
+) => ({
+    schema: wsOptions.schema,
+    plugins: [apolloSubscriptionsPlugin(cleanup)],
+})
@@ -0,0 +1,62 @@
+import { ExecutionResult } from "graphql"
+import { isArray, isObject, toAsyncIterableIterator } from "./util"
+
+/**
+ * Share every part of a result's data which hasn't changed since the previous result's data, freezing
+ * the rest.
+ * @param prev The previous data, which has already been shared.
+ * @param next The new data.
+ * @returns The new data, whose unchanged objects and lists are those of the previous data.
+ */
+export const shareData = (prev: any, next: any): any => {
+    if (isArray(next)) {
+        const shared = next.map((v, i) => shareData(isArray(prev) ? prev[i] : undefined, v))
+        const unchanged =
+            isArray(prev) && prev.length === shared.length && shared.every((v, i) => v === prev[i])
+        return unchanged ? prev : Object.freeze(shared)
+    }
+
+    if (isObject(next)) {
+        const prevObject = isObject(prev) && !isArray(prev) ? (prev as any) : undefined
+        const shared = {} as { [key: string]: any }
+        for (const [key, v] of Object.entries(next)) shared[key] = shareData(prevObject?.[key], v)
+        const keys = Object.keys(shared)
+        const unchanged =
+            prevObject &&
+            keys.length === Object.keys(prevObject).length &&
+            keys.every(key => key in prevObject && shared[key] === prevObject[key])
+        return unchanged ? prevObject : Object.freeze(shared)
+    }
+
+    return next
+}
+
+/**
+ * Returns a new async iterator of execution results, whose data are frozen snapshots. The parts of each
+ * result which haven't changed since the previous result are the same objects as before, so they can be
+ * compared by reference, e.g. for memoization.
+ * @param it The original iterator of execution results, e.g. as returned by GraphQL.js' `subscribe`.
+ * @returns The iterator of snapshots.
+ */
+export const toSnapshotAsyncIterator = (
+    it: AsyncIterator<ExecutionResult>
+): AsyncIterableIterator<ExecutionResult> => {
+    let prev: any
+
+    return toAsyncIterableIterator<ExecutionResult>({
+        async next() {
+            const result = await it.next()
+            if (result.done || !("data" in result.value)) return result
+            prev = shareData(prev, result.value.data)
+            return { value: { ...result.value, data: prev }, done: false }
+        },
+        async return(value?: any) {
+            if (it.return) await it.return(value)
+            return { value, done: true }
+        },
+        async throw(err?: any) {
+            if (it.return) await it.return()
+            throw err
+        },
+    })
+}
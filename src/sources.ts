@@ -0,0 +1,178 @@
+import { GraphQLResolveInfo } from "graphql"
+import { IFieldResolver } from "@graphql-tools/utils"
+import { PromiseOrValue } from "./compat"
+import { toAsyncIterableIterator } from "./util"
+
+/**
+ * Anything with the `subscribe` and `unsubscribe` methods of `graphql-subscriptions`' `PubSubEngine`.
+ */
+export interface PubSub {
+    subscribe(topic: string, onMessage: (payload: any) => void): PromiseOrValue<number>
+    unsubscribe(id: number): void
+}
+
+/**
+ * Anything with the `on` and `off` methods of Node.js' `EventEmitter`.
+ */
+export interface Emitter {
+    on(event: string | symbol, listener: (...args: any[]) => void): any
+    off(event: string | symbol, listener: (...args: any[]) => void): any
+}
+
+/**
+ * A topic, (or event name), or a function deriving one from the arguments of the subscribe resolver,
+ * e.g. `(user) => \`user:${user.id}\``.
+ */
+export type Topic<TSource = any, TContext = any, TArgs = any> =
+    | string
+    | ((parent: TSource, args: TArgs, context: TContext, info: GraphQLResolveInfo) => string)
+
+/**
+ * Options deciding which payloads become values of the field, and how.
+ */
+export interface SourceOptions<TPayload = any, TSource = any, TContext = any, TArgs = any> {
+    /** Whether a payload should be sent to this field. By default, every payload is. */
+    filter?: (
+        payload: TPayload,
+        parent: TSource,
+        args: TArgs,
+        context: TContext,
+        info: GraphQLResolveInfo
+    ) => PromiseOrValue<boolean>
+    /** Turn a payload into the value of the field. By default, the payload is the value. */
+    map?: (
+        payload: TPayload,
+        parent: TSource,
+        args: TArgs,
+        context: TContext,
+        info: GraphQLResolveInfo
+    ) => any
+}
+
+/**
+ * Create a subscribe resolver which yields the values pushed to it by a source, until it is returned.
+ * @param listen Start listening to the source, returning a function which stops listening. Any error
+ * listening fails the field.
+ * @param topic The topic, or a function deriving it from the arguments of the subscribe resolver.
+ * @param options How payloads become values of the field.
+ */
+const fromSource = <TPayload, TSource, TContext, TArgs>(
+    listen: (
+        topic: string,
+        onPayload: (payload: TPayload) => void,
+        onError: (err: any) => void
+    ) => () => PromiseOrValue<void>,
+    topic: Topic<TSource, TContext, TArgs>,
+    { filter, map }: SourceOptions<TPayload, TSource, TContext, TArgs>
+): IFieldResolver<TSource, TContext, TArgs> => (parent, args, context, info) => {
+    const values = [] as any[]
+    const waiting = [] as { res: (result: IteratorResult<any>) => void; rej: (err: any) => void }[]
+    let done = false
+    let error: { error: any } | undefined
+    // filters and maps may be async, so payloads are handled one at a time to keep them in order
+    let handled = Promise.resolve()
+
+    const push = (value: any) => {
+        if (done) return
+        const wake = waiting.shift()
+        if (wake) wake.res({ value, done: false })
+        else values.push(value)
+    }
+
+    const finish = async () => {
+        if (done) return
+        done = true
+        values.length = 0
+        for (const { res, rej } of waiting.splice(0))
+            error ? rej(error.error) : res({ value: undefined, done: true })
+        await stopListening()
+    }
+
+    const fail = (err: any) => {
+        error = { error: err }
+        finish()
+    }
+
+    const stopListening = listen(
+        typeof topic === "string" ? topic : topic(parent, args, context, info),
+        payload => {
+            handled = handled
+                .then(async () => {
+                    if (done || (filter && !(await filter(payload, parent, args, context, info))))
+                        return
+                    const value = map ? await map(payload, parent, args, context, info) : payload
+                    // subscribe resolvers yield values keyed by field name
+                    push({ [info.fieldName]: value })
+                })
+                // a failing filter or map fails the field
+                .catch(fail)
+        },
+        fail
+    )
+
+    return toAsyncIterableIterator({
+        async next() {
+            if (values.length) return { value: values.shift(), done: false }
+            if (error) throw error.error
+            if (done) return { value: undefined, done: true }
+            return new Promise<IteratorResult<any>>((res, rej) => waiting.push({ res, rej }))
+        },
+        async return(value?: any) {
+            await finish()
+            return { value, done: true }
+        },
+    })
+}
+
+/**
+ * Create a subscribe resolver for a field, whose values are the payloads published to a topic.
+ * @example
+ * User: {
+ *     status: { subscribe: fromPubSub(pubsub, user => `user:${user.id}`, { map: p => p.status }) },
+ * }
+ * @param pubsub The PubSub, e.g. `graphql-subscriptions`' `PubSub`.
+ * @param topic The topic, or a function deriving it from the parent value, args, and context.
+ * @param options How payloads become values of the field.
+ * @returns The subscribe resolver, which unsubscribes from the topic when the field is unsubscribed from.
+ */
+export const fromPubSub = <TPayload = any, TSource = any, TContext = any, TArgs = any>(
+    pubsub: PubSub,
+    topic: Topic<TSource, TContext, TArgs>,
+    options: SourceOptions<TPayload, TSource, TContext, TArgs> = {}
+): IFieldResolver<TSource, TContext, TArgs> =>
+    fromSource(
+        (topic, onPayload, onError) => {
+            const id = new Promise<number>(res => res(pubsub.subscribe(topic, onPayload)))
+            id.catch(onError)
+            return () =>
+                id.then(
+                    id => pubsub.unsubscribe(id),
+                    () => {}
+                )
+        },
+        topic,
+        options
+    )
+
+/**
+ * Create a subscribe resolver for a field, whose values are the first arguments of an event.
+ * @param emitter The event emitter.
+ * @param event The event name, or a function deriving it from the parent value, args, and context.
+ * @param options How payloads become values of the field.
+ * @returns The subscribe resolver, which removes its listener when the field is unsubscribed from.
+ */
+export const fromEventEmitter = <TPayload = any, TSource = any, TContext = any, TArgs = any>(
+    emitter: Emitter,
+    event: Topic<TSource, TContext, TArgs>,
+    options: SourceOptions<TPayload, TSource, TContext, TArgs> = {}
+): IFieldResolver<TSource, TContext, TArgs> =>
+    fromSource(
+        (event, onPayload) => {
+            emitter.on(event, onPayload)
+            return () => {
+                emitter.off(event, onPayload)
+            }
+        },
+        event,
+        options
+    )
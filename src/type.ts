@@ -16,8 +16,12 @@ import {
     GraphQLEnumType,
     GraphQLResolveInfo,
     GraphQLNullableType,
+    GraphQLError,
+    GraphQLSchema,
 } from "graphql"
-import { toAsync, isArray, isString } from "./util"
+import { isArray, isObject } from "./util"
+import { locateError } from "./errors"
+import { runTypeResolver } from "./compat"
 
 /**
  * An type structure which allows a GraphQL.js type to easily be deduced.
@@ -148,7 +152,7 @@ export const getTypeStructure = (type: GraphQLType): TypeStructure => {
 
 /**
  * Given an abstract GraphQL.js type, and a value, we can resolve it into any of the
- * following types.
+ * following types. List elements which can't be resolved are replaced by the error encountered.
  */
 export type GraphQLConcreteType =
     | GraphQLScalarType
@@ -156,15 +160,17 @@ export type GraphQLConcreteType =
     | GraphQLInputObjectType
     | GraphQLEnumType
     | GraphQLConcreteType[]
+    | GraphQLError
     | null
 
 /**
  * Resolve a value into a concrete GraphQL.js type given an abstract type, and necessary info.
  * @param value The incoming value
  * @param context The GraphQL.js context object
- * @param info Any GraphQLResolveInfo relevant to this query.
+ * @param info The GraphQLResolveInfo of the field the value belongs to.
  * @param type The abstract type of the value given.
  * @returns The concrete type of the value given.
+ * @throws A GraphQLError located at the field, if the value can't be resolved into the given type.
  */
 export const resolveType = async (
     value: any,
@@ -172,25 +178,162 @@ export const resolveType = async (
     info: GraphQLResolveInfo,
     type: GraphQLType
 ): Promise<GraphQLConcreteType> => {
+    const field = `${info.parentType.name}.${info.fieldName}`
     if (isNonNullType(type)) {
-        if (value == null) throw "Cannot return null value for non-null type."
+        if (value == null)
+            throw locateError(`Cannot return null for non-nullable field ${field}.`, info)
         const subtype = type.ofType as GraphQLNullableType
         return await resolveType(value, context, info, subtype)
     } else {
         if (value == null) return null
         else if (isAbstractType(type)) {
-            if (!type.resolveType)
-                throw "No type resolver. Cannot subscribe to field with no concrete type."
-            const v = await toAsync(type.resolveType(value, context, info, type))
-            if (!v) throw "No type resolved. Cannot subscribe to field with no concrete type."
-            const t = isString(v) ? info.schema.getType(v) : v
+            const v = await runTypeResolver(value, context, info, type)
+            if (!v)
+                throw locateError(
+                    `No type resolved for ${type.name}. Cannot subscribe to field ${field} with no concrete type.`,
+                    info
+                )
+            const t = info.schema.getType(v)
             if (!t)
-                throw `Type ${v} does not exist. Cannot subscribe to field with no concrete type.`
+                throw locateError(
+                    `Type ${v} does not exist. Cannot subscribe to field ${field} with no concrete type.`,
+                    info
+                )
             return await resolveType(value, context, info, t)
         } else if (isListType(type)) {
-            if (!isArray(value)) throw "Value is not an array. Cannot resolve further types."
+            if (!isArray(value))
+                throw locateError(
+                    `Expected Iterable, but did not find one for field ${field}.`,
+                    info
+                )
             const subtype = type.ofType as GraphQLType
-            return await Promise.all(value.map(v => resolveType(v, context, info, subtype)))
+            return await Promise.all(
+                value.map(async (v, i) => {
+                    const elementInfo = {
+                        ...info,
+                        path: { prev: info.path, key: i, typename: undefined },
+                    }
+                    try {
+                        return await resolveType(v, context, elementInfo, subtype)
+                    } catch (err) {
+                        return locateError(err, elementInfo)
+                    }
+                })
+            )
         } else return type
     }
 }
+
+/**
+ * What is known about a value assembled by a patched subscription. These values only hold the
+ * requested fields, keyed by response key, so they can't be relied upon to resolve their own types.
+ */
+interface AssembledValue {
+    /** The name of the concrete type the value was assembled as, unless it is a list. */
+    typeName?: string
+    /** The type of each field, keyed by response key, unless it is a list. */
+    fieldTypes?: Map<string, GraphQLOutputType>
+}
+
+const assembledValues = new WeakMap<object, AssembledValue>()
+
+const registerAssembledValue = (value: object, assembled: AssembledValue) => {
+    assembledValues.set(value, assembled)
+    // lets GraphQL.js' default type resolver find the type, without it showing up as a field
+    if (assembled.typeName !== undefined && !("__typename" in value))
+        Object.defineProperty(value, "__typename", { value: assembled.typeName })
+}
+
+/**
+ * Record the concrete type, and field types, of a value assembled by a patched subscription.
+ */
+export const setAssembledValue = (
+    value: object,
+    typeName?: string,
+    fieldTypes?: Map<string, GraphQLOutputType>
+) => {
+    registerAssembledValue(value, { typeName, fieldTypes })
+}
+
+/**
+ * Copy a value assembled by a patched subscription with some of its fields replaced. The copy shares
+ * every other field with the original, keeps its recorded types, and is frozen, so values which have
+ * already been yielded never change.
+ * @param value The assembled value.
+ * @param changes The fields to replace, keyed by response key, (or index, for lists).
+ * @returns The frozen copy.
+ */
+export const updateAssembledValue = <T extends object>(
+    value: T,
+    changes: { [key: string]: any }
+): T => {
+    const copy = (isArray(value)
+        ? Object.assign([...value], changes)
+        : { ...value, ...changes }) as T
+    registerAssembledValue(copy, assembledValues.get(value) ?? {})
+    return Object.freeze(copy)
+}
+
+/**
+ * Whether the value was assembled by a patched subscription.
+ */
+export const isAssembledValue = (value: any): boolean =>
+    isObject(value) && assembledValues.has(value)
+
+// the values handed to GraphQL.js in place of assembled values, and the assembled values they stand for
+const resolvableValues = new WeakMap<object, object>()
+const assembledSources = new WeakMap<object, object>()
+
+/**
+ * Get the value which GraphQL.js resolves the fields of an assembled value from. Assembled values are
+ * keyed by response key, so that aliases of the same field can have their own args and subfields, while
+ * GraphQL.js' default resolver reads fields by name. Instead, every field of the value's type is a
+ * method, which the default resolver calls with the field's info, and which reads the field by response
+ * key, so the schema never needs to be changed.
+ * @param value The value, which is returned unchanged unless it was assembled by a patched subscription.
+ * @param schema The schema.
+ * @returns The resolvable value, which is the same for every call with the same assembled value.
+ */
+export const toResolvableValue = (value: any, schema: GraphQLSchema): any => {
+    if (!isAssembledValue(value)) return value
+    if (resolvableValues.has(value)) return resolvableValues.get(value)
+
+    let resolvable: { [key: string]: any }
+    if (isArray(value)) {
+        resolvable = value.map(v => toResolvableValue(v, schema))
+    } else {
+        const { typeName } = assembledValues.get(value)!
+        const type = typeName !== undefined ? schema.getType(typeName) : undefined
+        resolvable = {}
+        for (const field of isObjectType(type) ? Object.keys(type.getFields()) : [])
+            resolvable[field] = (args: unknown, context: unknown, info: GraphQLResolveInfo) =>
+                toResolvableValue(value[info.path.key], schema)
+        // lets GraphQL.js' default type resolver find the type, just as with the assembled value
+        if (typeName !== undefined)
+            Object.defineProperty(resolvable, "__typename", { value: typeName })
+    }
+    resolvableValues.set(value, resolvable)
+    assembledSources.set(resolvable, value)
+    return Object.freeze(resolvable)
+}
+
+/**
+ * Get the assembled value which a value given to a resolver by GraphQL.js stands for, if it stands for
+ * one, or else the value itself.
+ */
+export const fromResolvableValue = (value: any): any =>
+    (isObject(value) && assembledSources.get(value)) || value
+
+/**
+ * Get the concrete type of a value assembled by a patched subscription, if it is one.
+ */
+export const getConcreteTypeName = (value: any): string | undefined =>
+    isObject(value) ? assembledValues.get(fromResolvableValue(value))?.typeName : undefined
+
+/**
+ * Get the type of a field of a value assembled by a patched subscription, if it is one.
+ * @param value The assembled value.
+ * @param key The response key of the field.
+ */
+export const getAssembledFieldType = (value: any, key: string): GraphQLOutputType | undefined =>
+    isObject(value) ? assembledValues.get(value)?.fieldTypes?.get(key) : undefined
@@ -1,10 +1,22 @@
-import { PromiseOrValue } from "graphql/jsutils/PromiseOrValue"
-import { EventEmitter } from "events"
+import { PromiseOrValue } from "./compat"
 
 export const isArray = (x: any): x is any[] => x instanceof Array
 export const isString = (x: any): x is string => typeof x === "string"
 export const isObject = (x: any): x is object => x && typeof x === "object"
 
+/**
+ * Like `JSON.stringify`, but with object keys in a stable order.
+ */
+export const stableStringify = (v: any): string => {
+    if (isArray(v)) return `[${v.map(stableStringify).join(",")}]`
+    if (isObject(v) && !(v instanceof Date))
+        return `{${Object.keys(v)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((v as any)[key])}`)
+            .join(",")}}`
+    return JSON.stringify(v) ?? "undefined"
+}
+
 /**
  * Returns a promise which never resolves.
  */
@@ -98,7 +110,7 @@ export const toAsyncIterableIterator = <T>(v: T | AsyncIterator<T>): AsyncIterab
             : {}),
         ...("throw" in preIt
             ? {
-                  async return(...args) {
+                  async throw(...args) {
                       return preIt.throw!(...args)
                   },
               }
@@ -163,13 +175,24 @@ export const predictAsyncIterator = async function* <T>(
         const onNextValueFs = [] as (() => void)[]
 
         const evalThread = (async () => {
-            const result = await next
+            let result: IteratorResult<T>
+            try {
+                result = await next
+            } catch (err) {
+                // an error replaces the current value just as a new value would
+                hasNext = true
+                hasNextValue = true
+                await Promise.all([...onNextFs, ...onNextValueFs].map(async f => f()))
+                throw err
+            }
             hasNext = true
             hasNextValue = result.value
             const fs = hasNextValue ? [...onNextFs, ...onNextValueFs] : onNextFs
             await Promise.all(fs.map(async f => f()))
             prevResult = result
         })()
+        // rethrown once the current value is finished with
+        evalThread.catch(() => {})
 
         let o: Partial<AsyncIteratorPromise> = {
             get hasNext(): boolean {
@@ -214,46 +237,219 @@ export const mapAsyncIterator = async function* <T, U>(
     }
 }
 
+/**
+ * How values are buffered when the consumer of merged iterators is slower than the iterators.
+ * - `block`, (the default): sources are paused while more than `limit`, (by default 0), values are
+ *   buffered, and each paused source resumes once its value has been taken.
+ * - `drop-oldest`: sources are never paused, and the oldest values are dropped once more than
+ *   `limit`, (which must be at least 1), are buffered.
+ * - `keep-latest`: sources are never paused, and a new value from a source replaces any value of
+ *   that source which has yet to be taken, so at most one value per source is buffered.
+ */
+export type BufferOptions =
+    | { overflow?: "block"; limit?: number }
+    | { overflow: "drop-oldest"; limit: number }
+    | { overflow: "keep-latest" }
+
+/**
+ * Check that buffer options can be followed, as a limit of less than 1 would drop every value.
+ * @throws An error describing what is wrong with the options.
+ */
+export const assertBufferOptions = (options: BufferOptions) => {
+    if (options.overflow === "drop-oldest" && !(options.limit >= 1))
+        throw new Error(
+            `The drop-oldest overflow strategy needs a limit of at least 1, but was given ${options.limit}.`
+        )
+}
+
 /**
  * Given multiple async iterators, returns a new iterator that returns a result when any of the
  * original iterators returns a result.
+ *
+ * Values are returned in the order they arrived. If any iterator throws, every other iterator is
+ * returned, and the error is thrown once the values which arrived before it have been taken. The
+ * merged iterator finishes once every iterator has finished.
+ *
+ * Returning the merged iterator returns all of the original iterators, and finishes immediately, even
+ * if the merged iterator is still waiting on a result.
  * @param its The original iterators.
+ * @param options How values are buffered while the merged iterator isn't being consumed.
  * @return The merged iterator.
  */
 export const mergeAsyncIterators = <T>(
-    ...its: AsyncIterableIterator<T>[]
+    its: AsyncIterableIterator<T>[],
+    options: BufferOptions = {}
 ): AsyncIterableIterator<T> => {
-    const h = new EventEmitter()
-    const newValue = Symbol("newValue")
-    const queue = [] as T[]
+    assertBufferOptions(options)
+    const limit = options.overflow === "keep-latest" ? Infinity : options.limit ?? 0
+    const buffer = [] as { index: number; value: T }[]
+    // the sources which haven't finished, and those of them which are paused
+    const unfinished = new Set(its.keys())
+    const paused = new Set<number>()
+    let started = false
     let finished = false
+    let error: { error: any } | undefined
+    let waiting: (() => void) | undefined
+
+    const wake = () => {
+        const res = waiting
+        waiting = undefined
+        if (res) res()
+    }
+
+    const stopSources = () => {
+        for (const index of unfinished) {
+            const it = its[index]
+            if (it.return)
+                Promise.resolve()
+                    .then(() => it.return!())
+                    .catch(() => {})
+        }
+        unfinished.clear()
+        paused.clear()
+    }
 
-    Promise.all(
-        its.map(async it => {
-            for await (const v of it) {
-                queue.push(v)
-                h.emit(newValue)
+    const receive = (index: number, value: T) => {
+        const buffered = options.overflow === "keep-latest" && buffer.find(b => b.index === index)
+        if (buffered) buffered.value = value
+        else buffer.push({ index, value })
+        if (options.overflow === "drop-oldest" && buffer.length > limit) buffer.shift()
+
+        if (options.overflow && options.overflow !== "block") pull(index)
+        else if (buffer.length <= limit) pull(index)
+        else paused.add(index)
+    }
+
+    const pull = (index: number) => {
+        paused.delete(index)
+        its[index].next().then(
+            result => {
+                if (finished || error || !unfinished.has(index)) return
+                if (result.done) unfinished.delete(index)
+                else receive(index, result.value)
+                wake()
+            },
+            err => {
+                if (finished || error || !unfinished.has(index)) return
+                error = { error: err }
+                unfinished.delete(index)
+                stopSources()
+                wake()
             }
-        })
-    ).then(() => {
+        )
+    }
+
+    const finish = () => {
+        if (finished) return
         finished = true
-    })
+        buffer.length = 0
+        stopSources()
+        wake()
+    }
 
-    return toAsyncIterableIterator({
+    return toAsyncIterableIterator<T>({
         async next() {
-            if (finished && queue.length === 1)
-                return Promise.resolve({ value: queue[0], done: true })
-            if (!finished && queue.length === 0)
-                await new Promise(res => {
-                    h.once(newValue, res)
-                })
-
-            const value = queue.splice(0, 1)[0]
-            return Promise.resolve({ value, done: false })
+            if (!started) {
+                started = true
+                its.forEach((_, index) => pull(index))
+            }
+
+            while (!finished) {
+                const taken = buffer.shift()
+                if (taken) {
+                    // the source of the value resumes, along with every other, if there's room
+                    if (paused.has(taken.index)) pull(taken.index)
+                    if (buffer.length <= limit) paused.forEach(pull)
+                    return { value: taken.value, done: false }
+                }
+                if (error) {
+                    finished = true
+                    throw error.error
+                }
+                if (unfinished.size === 0) break
+                await new Promise<void>(res => (waiting = res))
+            }
+
+            finished = true
+            return { value: undefined, done: true }
+        },
+        async return(value?: any) {
+            finish()
+            return { value, done: true }
         },
     })
 }
 
+/**
+ * Share an async iterator between any number of consumers. Each consumer receives the latest value
+ * straight away, followed by the latest value whenever it is ready for one, so values it hasn't taken
+ * are replaced rather than buffered.
+ *
+ * Consumers returning their iterators leave the original iterator running, so it should be returned
+ * separately once it isn't needed.
+ * @param it The original iterator, which is pulled from as soon as the first consumer subscribes.
+ * @returns A function creating a new consumer's iterator.
+ */
+export const shareAsyncIterator = <T>(it: AsyncIterator<T>): (() => AsyncIterableIterator<T>) => {
+    interface Consumer {
+        latest?: { value: T }
+        wake?: () => void
+    }
+    const consumers = new Set<Consumer>()
+    let latest: { value: T } | undefined
+    let error: { error: any } | undefined
+    let started = false
+    let done = false
+
+    const pump = async () => {
+        try {
+            for (;;) {
+                const result = await it.next()
+                if (result.done) break
+                latest = { value: result.value }
+                for (const consumer of consumers) {
+                    consumer.latest = latest
+                    consumer.wake?.()
+                }
+            }
+        } catch (err) {
+            error = { error: err }
+        }
+        done = true
+        for (const consumer of consumers) consumer.wake?.()
+    }
+
+    return () => {
+        if (!started) {
+            started = true
+            pump()
+        }
+        const consumer: Consumer = { latest }
+        consumers.add(consumer)
+
+        return toAsyncIterableIterator<T>({
+            async next() {
+                while (consumers.has(consumer)) {
+                    const latest = consumer.latest
+                    consumer.latest = undefined
+                    if (latest) return { value: latest.value, done: false }
+                    if (error) throw error.error
+                    if (done) break
+                    await new Promise<void>(res => (consumer.wake = res))
+                    consumer.wake = undefined
+                }
+                consumers.delete(consumer)
+                return { value: undefined, done: true }
+            },
+            async return(value?: any) {
+                consumers.delete(consumer)
+                consumer.wake?.()
+                return { value, done: true }
+            },
+        })
+    }
+}
+
 /**
  * Given a promise, return an async iterator which waits for the promise to resolve, and return
  * the promise result as an iterator result.
@@ -272,10 +468,10 @@ export const cutAsyncIterator = async function* <T>(
     it: AsyncIterableIterator<T>,
     cut: Promise<any>
 ): AsyncIterableIterator<T> {
-    for await (const v of mergeAsyncIterators<{ value: T } | false>(
+    for await (const v of mergeAsyncIterators<{ value: T } | false>([
         mapAsyncIterator(it, value => ({ value })),
-        mapAsyncIterator(promiseToAsyncIterator(cut), () => false)
-    )) {
+        mapAsyncIterator(promiseToAsyncIterator(cut), () => false),
+    ])) {
         if (v === false) return
         else yield v.value
     }
@@ -293,10 +489,10 @@ export const cutAfterOneAsyncIterator = async function* <T>(
 ): AsyncIterableIterator<T> {
     let yielded = false
     let cutted = false
-    for await (const v of mergeAsyncIterators<{ value: T } | false>(
+    for await (const v of mergeAsyncIterators<{ value: T } | false>([
         mapAsyncIterator(it, value => ({ value })),
-        mapAsyncIterator(promiseToAsyncIterator(cut), () => false)
-    )) {
+        mapAsyncIterator(promiseToAsyncIterator(cut), () => false),
+    ])) {
         if (v === false) {
             cutted = true
             if (yielded) return
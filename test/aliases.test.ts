@@ -0,0 +1,128 @@
+import { GraphQLFieldResolver, GraphQLObjectType, execute, parse } from "graphql"
+import { executeLive, liveDirectiveTypeDefs } from "../src"
+import { createSchema, subscribeTo, take } from "./helpers"
+
+const typeDefs = `
+    ${liveDirectiveTypeDefs}
+    type Subscription { root: Root! }
+    type Root { child: Child! count(by: Int!): Int! }
+    type Child { x(n: Int!): String! y: String! z: String! }
+    type Query { child: Child! plain: Child! count(by: Int!): Int! }
+`
+
+const schema = createSchema(typeDefs, {
+    Subscription: {
+        root: {
+            subscribe: async function* () {
+                yield { root: { child: { y: "y", z: "z" } } }
+                await new Promise(() => {})
+            },
+        },
+    },
+    Root: {
+        count: {
+            subscribe: async function* (_: any, { by }: { by: number }) {
+                yield { count: by }
+            },
+        },
+    },
+    Child: { x: (_: any, { n }: { n: number }) => `x${n}` },
+    Query: { child: () => ({ y: "y", z: "z" }), count: (_: any, { by }: { by: number }) => by },
+})
+
+const first = async (query: string) => {
+    const it = await subscribeTo(schema, query)
+    const [result] = await take(it, 1)
+    await it.return!()
+    return result
+}
+
+describe("aliases", () => {
+    it("gives aliases of fields with resolvers their own args", async () => {
+        expect(
+            await first("subscription { root { one: count(by: 1) two: count(by: 2) } }")
+        ).toEqual({
+            data: { root: { one: 1, two: 2 } },
+        })
+    })
+
+    it("gives aliases of fields without resolvers their own subfields and args", async () => {
+        expect(
+            await first("subscription { root { a: child { x(n: 1) } b: child { x(n: 2) } } }")
+        ).toEqual({ data: { root: { a: { x: "x1" }, b: { x: "x2" } } } })
+        expect(await first("subscription { root { a: child { y } b: child { z } } }")).toEqual({
+            data: { root: { a: { y: "y" }, b: { z: "z" } } },
+        })
+    })
+
+    it("keeps response keys apart from the names of other fields", async () => {
+        expect(await first("subscription { root { child: child { y } y: child { z } } }")).toEqual({
+            data: { root: { child: { y: "y" }, y: { z: "z" } } },
+        })
+        expect(await first("subscription { root { child { y: z z: y } } }")).toEqual({
+            data: { root: { child: { y: "z", z: "y" } } },
+        })
+    })
+
+    it("gives aliases their own args and subfields in live queries", async () => {
+        const it = (await executeLive({
+            schema,
+            document: parse(`
+                query @live {
+                    a: child { x(n: 1) }
+                    b: child { x(n: 2) }
+                    c: plain { y }
+                    d: plain { z }
+                    one: count(by: 1)
+                }
+            `),
+            rootValue: { plain: { y: "y", z: "z" } },
+        })) as AsyncIterableIterator<any>
+        const [result] = await take(it, 1)
+        await it.return!()
+        expect(result).toEqual({
+            data: { a: { x: "x1" }, b: { x: "x2" }, c: { y: "y" }, d: { z: "z" }, one: 1 },
+        })
+    })
+
+    it("executes a document as normal outside of executeLive, once it has been executed live", async () => {
+        const document = parse("query @live { one: count(by: 1) c: plain { y } }")
+        const rootValue = { plain: { y: "y" } }
+        const it = (await executeLive({
+            schema,
+            document,
+            rootValue,
+        })) as AsyncIterableIterator<any>
+        await take(it, 1)
+        await it.return!()
+        expect(await execute({ schema, document, rootValue })).toEqual({
+            data: { one: 1, c: { y: "y" } },
+        })
+    })
+
+    it("resolves fields by name outside of subscriptions", async () => {
+        await first("subscription { root { child { y } } }")
+        expect(
+            await execute({ schema, document: parse("{ a: child { y } b: child { x(n: 3) } }") })
+        ).toEqual({ data: { a: { y: "y" }, b: { x: "x3" } } })
+    })
+
+    it("never changes the schema, so other executions keep their own field resolver", async () => {
+        const fieldResolver: GraphQLFieldResolver<any, any> = (source, args, ctx, info) => {
+            const value = source[info.fieldName]
+            return typeof value === "string" ? value.toUpperCase() : value
+        }
+        const plain = () =>
+            execute({
+                schema,
+                document: parse("{ plain { y } }"),
+                rootValue: { plain: { y: "y" } },
+                fieldResolver,
+            })
+        expect(await plain()).toEqual({ data: { plain: { y: "Y" } } })
+        await first("subscription { root { a: child { y } b: child { z } } }")
+        expect(await plain()).toEqual({ data: { plain: { y: "Y" } } })
+        const child = schema.getType("Child") as GraphQLObjectType
+        expect(child.getFields().y.resolve).toBeUndefined()
+    })
+})
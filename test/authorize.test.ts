@@ -0,0 +1,110 @@
+import { createSchema, createTracker, subscribeTo, take, waitFor } from "./helpers"
+
+const typeDefs = `
+    directive @auth(role: String!) on FIELD_DEFINITION
+
+    type Subscription { me: User! }
+    type User { id: ID! name: String! status: Int email: String @auth(role: "admin") friends: [Friend!] }
+    type Friend { id: ID! n: Int! }
+    type Query { ping: String }
+`
+
+const setup = (authorizeMe: (ctx: any) => boolean = () => true) => {
+    const root = createTracker()
+    const status = createTracker()
+    const email = createTracker()
+    const friends = createTracker()
+    const schema = createSchema(
+        typeDefs,
+        {
+            Subscription: {
+                me: {
+                    subscribe: root.track(async function* () {
+                        yield { me: { id: "1", name: "me" } }
+                        await new Promise(() => {})
+                    }),
+                },
+            },
+            User: {
+                status: { subscribe: status.ticker("status") },
+                email: { subscribe: email.ticker("email") },
+                friends: { resolve: () => [{ id: "2" }, { id: "3" }] },
+            },
+            Friend: { n: { subscribe: friends.ticker("n") } },
+        },
+        {
+            keys: { User: (user: any) => user.id, Friend: (friend: any) => friend.id },
+            authorize: {
+                fields: {
+                    Subscription: { me: (_, __, ctx) => authorizeMe(ctx) },
+                    User: {
+                        status: (_, __, ctx) => ctx.allowed,
+                        friends: (_, __, ctx) => ctx.allowed,
+                    },
+                },
+                directives: { auth: ({ role }, _, __, ctx) => ctx.roles.includes(role) },
+                recheck: true,
+            },
+        }
+    )
+    return { root, status, email, friends, schema }
+}
+
+describe("authorization", () => {
+    it("never calls the subscribe resolver of a denied root field", async () => {
+        const { root, schema } = setup(() => false)
+        const it = await subscribeTo(schema, "subscription { me { name } }", {})
+        const results = await take(it, 1)
+        await it.return!()
+        expect(root.started).toBe(0)
+        expect(results[0].data).toBeNull()
+        expect(results[0].errors?.map(error => [error.message, error.path])).toEqual([
+            ["Not authorized to access Subscription.me.", ["me"]],
+        ])
+    })
+
+    it("never subscribes to denied nested fields, while subscribing to the rest", async () => {
+        const { email, status, schema } = setup()
+        const it = await subscribeTo(schema, "subscription { me { name status email } }", {
+            allowed: true,
+            roles: [],
+        })
+        const results = await take(it, 2)
+        await it.return!()
+        expect(results[1].data).toEqual({ me: { name: "me", status: 1, email: null } })
+        expect(results[1].errors?.map(error => error.path)).toEqual([["me", "email"]])
+        expect(email.started).toBe(0)
+        await waitFor(() => status.running === 0)
+    })
+
+    it("closes everything kept running for a field once it is denied by a recheck", async () => {
+        const { root, status, friends, schema } = setup()
+        const context = { allowed: true, roles: [] }
+        const it = await subscribeTo(
+            schema,
+            "subscription { me { name status friends { id n } } }",
+            context
+        )
+        const results = await take(it, 3)
+        expect(results[0].data).toEqual({
+            me: {
+                name: "me",
+                status: 0,
+                friends: [
+                    { id: "2", n: 0 },
+                    { id: "3", n: 0 },
+                ],
+            },
+        })
+        expect(status.started).toBe(1)
+        expect(friends.started).toBe(2)
+
+        context.allowed = false
+        const [denied] = await take(it, 1)
+        expect(denied.errors?.[0].message).toMatch(/^Not authorized to access User\./)
+        // the denied fields' iterators are closed, though their parent is never updated
+        await waitFor(() => status.running === 0 && friends.running === 0)
+        expect(root.running).toBe(1)
+        await it.return!()
+    })
+})
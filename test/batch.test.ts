@@ -0,0 +1,60 @@
+import { createSchema, subscribeTo, take, wait } from "./helpers"
+
+describe("batching", () => {
+    it("calls a batch function once per update, with every parent of that update", async () => {
+        const calls = [] as { ids: string[]; args: any }[]
+        const schema = createSchema(
+            `
+                type Subscription { items: [Item!]! }
+                type Item { id: ID! label(prefix: String!): String! }
+                type Query { ping: String }
+            `,
+            {
+                Subscription: {
+                    items: {
+                        subscribe: async function* () {
+                            yield { items: [{ id: "1" }, { id: "2" }, { id: "3" }] }
+                            await wait(10)
+                            yield { items: [{ id: "2" }, { id: "3" }, { id: "4" }] }
+                            await new Promise(() => {})
+                        },
+                    },
+                },
+            },
+            {
+                batch: {
+                    Item: {
+                        label: (items: readonly any[], args) => {
+                            calls.push({ ids: items.map(item => item.id), args })
+                            return items.map(item => `${args.prefix}${item.id}`)
+                        },
+                    },
+                },
+            }
+        )
+        const it = await subscribeTo(schema, 'subscription { items { id label(prefix: "item") } }')
+        const results = await take(it, 2)
+        await it.return!()
+        expect(results.map(result => result.data)).toEqual([
+            {
+                items: [
+                    { id: "1", label: "item1" },
+                    { id: "2", label: "item2" },
+                    { id: "3", label: "item3" },
+                ],
+            },
+            {
+                items: [
+                    { id: "2", label: "item2" },
+                    { id: "3", label: "item3" },
+                    { id: "4", label: "item4" },
+                ],
+            },
+        ])
+        // each update loads its parents afresh, rather than reusing the values of the last update
+        expect(calls).toEqual([
+            { ids: ["1", "2", "3"], args: { prefix: "item" } },
+            { ids: ["2", "3", "4"], args: { prefix: "item" } },
+        ])
+    })
+})
@@ -0,0 +1,74 @@
+import { createSchema, createTracker, subscribeTo, take, waitFor } from "./helpers"
+
+const typeDefs = `
+    type Subscription { root: Root! }
+    type Root { n: Int! child: Child! list: [Child!]! }
+    type Child { m: Int! }
+    type Query { ping: String }
+`
+
+const setup = (rootMs: number) => {
+    const root = createTracker()
+    const nested = createTracker()
+    const schema = createSchema(typeDefs, {
+        Subscription: {
+            root: {
+                subscribe: root.track(async function* () {
+                    for (;;) {
+                        yield { root: {} }
+                        await new Promise(res => setTimeout(res, rootMs))
+                    }
+                }),
+            },
+        },
+        Root: {
+            n: { subscribe: nested.ticker("n") },
+            child: { resolve: () => ({}) },
+            list: { resolve: () => [{}, {}] },
+        },
+        Child: { m: { subscribe: nested.ticker("m") } },
+    })
+    return { root, nested, schema }
+}
+
+describe("closing nested iterators", () => {
+    it("runs the finally block of every iterator once the subscription is returned", async () => {
+        const { root, nested, schema } = setup(300)
+        const it = await subscribeTo(schema, "subscription { root { n child { m } list { m } } }")
+        const [first] = await take(it, 3)
+        expect(first.data).toEqual({ root: { n: 0, child: { m: 0 }, list: [{ m: 0 }, { m: 0 }] } })
+        expect(nested.started).toBe(4)
+
+        await it.return!()
+        await waitFor(() => nested.running === 0 && root.running === 0)
+        expect(nested.finished).toBe(4)
+        expect(root.finished).toBe(1)
+    })
+
+    it("runs the finally blocks of the iterators of a value once its parent re-emits", async () => {
+        const { nested, schema } = setup(60)
+        const it = await subscribeTo(schema, "subscription { root { n child { m } list { m } } }")
+        const results = (async () => {
+            for await (const _ of it);
+        })()
+
+        // the iterators started for the first value are closed once the second value arrives
+        await waitFor(() => nested.started >= 8)
+        await waitFor(() => nested.finished >= 4)
+        expect(nested.running).toBeLessThanOrEqual(8)
+
+        await it.return!()
+        await results
+        await waitFor(() => nested.running === 0)
+    })
+
+    it("runs the finally blocks of iterators which haven't yielded yet", async () => {
+        const { root, nested, schema } = setup(100)
+        const it = await subscribeTo(schema, "subscription { root { n child { m } list { m } } }")
+        const pending = it.next()
+        await waitFor(() => root.started === 1)
+        await it.return!()
+        await pending
+        await waitFor(() => nested.running === 0 && root.running === 0)
+    })
+})
@@ -0,0 +1,90 @@
+import { coalesceAsyncIterator } from "../src/coalesce"
+import { createSchema, createTracker, subscribeTo, take, wait } from "./helpers"
+
+// an iterator yielding bursts of values, waiting the given time after each burst
+const fromBursts = (bursts: [number[], number][]) =>
+    (async function* () {
+        for (const [values, ms] of bursts) {
+            for (const value of values) yield value
+            await wait(ms)
+        }
+    })()
+
+describe("coalescing", () => {
+    it("sends at most one value per window when throttling, and always the latest", async () => {
+        const source = (async function* () {
+            for (let n = 0; n < 10; n++) {
+                yield n
+                await wait(10)
+            }
+        })()
+        const start = Date.now()
+        const values = await take(coalesceAsyncIterator(source, { type: "throttle", ms: 40 }), 10)
+        expect(values[0]).toBe(0)
+        expect(values[values.length - 1]).toBe(9)
+        expect(values.length).toBeLessThan(10)
+        // each value after the first waits for the window to pass
+        expect(Date.now() - start).toBeGreaterThanOrEqual(40 * (values.length - 2))
+    })
+
+    it("sends the latest value once no value has arrived for a while when debouncing", async () => {
+        const source = fromBursts([
+            [[1, 2, 3], 100],
+            [[4, 5], 0],
+        ])
+        expect(
+            await take(coalesceAsyncIterator(source, { type: "debounce", ms: 40 }), 10)
+        ).toEqual([3, 5])
+    })
+
+    it("sends the latest value of each turn of the event loop when batching", async () => {
+        const source = fromBursts([
+            [[1, 2, 3], 20],
+            [[4], 20],
+            [[5, 6], 0],
+        ])
+        expect(await take(coalesceAsyncIterator(source, { type: "batch" }), 10)).toEqual([3, 4, 6])
+    })
+
+    it("throws the error of the original iterator once its values have been sent", async () => {
+        const source = (async function* () {
+            yield 1
+            throw new Error("Failed.")
+        })()
+        const it = coalesceAsyncIterator(source, { type: "batch" })
+        expect(await it.next()).toEqual({ value: 1, done: false })
+        await expect(it.next()).rejects.toThrow("Failed.")
+    })
+
+    it("coalesces every nested update of a subscription", async () => {
+        const tracker = createTracker()
+        const schema = createSchema(
+            `
+                type Subscription { root: Root! }
+                type Root { a: Int! b: Int! }
+                type Query { ping: String }
+            `,
+            {
+                Subscription: {
+                    root: {
+                        subscribe: async function* () {
+                            yield { root: {} }
+                            await new Promise(() => {})
+                        },
+                    },
+                },
+                Root: {
+                    a: { subscribe: tracker.ticker("a", 10) },
+                    b: { subscribe: tracker.ticker("b", 10) },
+                },
+            },
+            { coalesce: { type: "throttle", ms: 100 } }
+        )
+        const it = await subscribeTo(schema, "subscription { root { a b } }")
+        const start = Date.now()
+        await take(it, 3)
+        await it.return!()
+        // both fields update every 10ms, but a payload is only sent every 100ms
+        expect(Date.now() - start).toBeGreaterThanOrEqual(190)
+    })
+})
@@ -0,0 +1,52 @@
+import { versionInfo } from "graphql"
+import { createSchema, createTracker, subscribeTo, take } from "./helpers"
+
+const typeDefs = `
+    type Subscription { result: Result! node: Node! }
+    union Result = User | Post
+    interface Node { id: ID! }
+    type User implements Node { id: ID! status: Int! }
+    type Post implements Node { id: ID! title: String! }
+    type Query { ping: String }
+`
+
+describe(`GraphQL.js ${versionInfo.major}`, () => {
+    const tracker = createTracker()
+    const schema = createSchema(typeDefs, {
+        Subscription: {
+            result: {
+                subscribe: async function* () {
+                    yield { result: { kind: "User", id: "u" } }
+                },
+            },
+            node: {
+                subscribe: async function* () {
+                    yield { node: { kind: "Post", id: "p", title: "Hello" } }
+                },
+            },
+        },
+        Result: { __resolveType: (value: any) => value.kind },
+        Node: { __resolveType: (value: any) => value.kind },
+        User: { status: { subscribe: tracker.ticker("status") } },
+    })
+
+    it("resolves the members of unions by type name", async () => {
+        const it = await subscribeTo(
+            schema,
+            "subscription { result { __typename ... on User { id status } ... on Post { title } } }"
+        )
+        const results = await take(it, 2)
+        await it.return!()
+        expect(results.map(result => result.data)).toEqual([
+            { result: { __typename: "User", id: "u", status: 0 } },
+            { result: { __typename: "User", id: "u", status: 1 } },
+        ])
+    })
+
+    it("resolves the implementations of interfaces by type name", async () => {
+        const it = await subscribeTo(schema, "subscription { node { id ... on Post { title } } }")
+        const [result] = await take(it, 1)
+        await it.return!()
+        expect(result.data).toEqual({ node: { id: "p", title: "Hello" } })
+    })
+})
@@ -0,0 +1,78 @@
+import { ExecutionResult } from "graphql"
+import { applyDelta, toDeltaAsyncIterator } from "../src"
+import { diffData } from "../src/delta"
+import { createSchema, createTracker, subscribeTo, take } from "./helpers"
+
+const fromResults = (results: ExecutionResult[]) =>
+    (async function* () {
+        yield* results
+    })()
+
+describe("deltas", () => {
+    it("only sends the paths which have changed", async () => {
+        expect(
+            diffData({ a: { b: 1, c: [1, 2] }, d: "d" }, { a: { b: 2, c: [1, 3] }, d: "d" })
+        ).toEqual([
+            { path: ["a", "b"], data: 2 },
+            { path: ["a", "c", 1], data: 3 },
+        ])
+        // objects whose fields have changed, and lists whose lengths have, are sent in full
+        expect(diffData({ a: { b: 1 } }, { a: { c: 1 } })).toEqual([
+            { path: ["a"], data: { c: 1 } },
+        ])
+        expect(diffData({ a: [1] }, { a: [1, 2] })).toEqual([{ path: ["a"], data: [1, 2] }])
+    })
+
+    it("rebuilds every result from its delta, leaving the previous result unchanged", async () => {
+        const results: ExecutionResult[] = [
+            { data: { user: { name: "a", friends: [{ id: 1 }, { id: 2 }] } } },
+            { data: { user: { name: "b", friends: [{ id: 1 }, { id: 2 }] } } },
+            // an unchanged result is skipped
+            { data: { user: { name: "b", friends: [{ id: 1 }, { id: 2 }] } } },
+            { data: { user: { name: "b", friends: [{ id: 1 }, { id: 3 }, { id: 4 }] } } },
+            { data: { user: null }, errors: [{ message: "Failed." } as any] },
+        ]
+        const deltas = await take(toDeltaAsyncIterator(fromResults(results)), Infinity)
+        expect(deltas).toHaveLength(4)
+        expect(deltas[1]).toEqual({ incremental: [{ path: ["user", "name"], data: "b" }] })
+
+        let prev: ExecutionResult | undefined
+        const rebuilt = deltas.map(delta => {
+            const before = JSON.stringify(prev)
+            const next = applyDelta(prev, delta)
+            expect(JSON.stringify(prev)).toBe(before)
+            return (prev = next)
+        })
+        expect(rebuilt).toEqual([results[0], results[1], results[3], results[4]])
+    })
+
+    it("rebuilds the results of a subscription", async () => {
+        const tracker = createTracker()
+        const schema = createSchema(
+            `
+                type Subscription { root: Root! }
+                type Root { name: String! n: Int! }
+                type Query { ping: String }
+            `,
+            {
+                Subscription: {
+                    root: {
+                        subscribe: async function* () {
+                            yield { root: { name: "root" } }
+                            await new Promise(() => {})
+                        },
+                    },
+                },
+                Root: { n: { subscribe: tracker.ticker("n") } },
+            }
+        )
+        const it = toDeltaAsyncIterator(
+            await subscribeTo(schema, "subscription { root { name n } }")
+        )
+        const deltas = await take(it, 3)
+        await it.return!()
+        expect(deltas[2]).toEqual({ incremental: [{ path: ["root", "n"], data: 2 }] })
+        const result = deltas.reduce(applyDelta, undefined as ExecutionResult | undefined)
+        expect(result).toEqual({ data: { root: { name: "root", n: 2 } } })
+    })
+})
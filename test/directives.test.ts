@@ -0,0 +1,102 @@
+import {
+    FieldNode,
+    GraphQLError,
+    GraphQLResolveInfo,
+    OperationDefinitionNode,
+    parse,
+} from "graphql"
+import { coalesceDirectives, coalesceDirectiveTypeDefs, DirectiveHandler } from "../src"
+import { applyDirectives } from "../src/directives"
+import { createSchema, createTracker, subscribeTo, take } from "./helpers"
+
+const typeDefs = `
+    ${coalesceDirectiveTypeDefs}
+    directive @double on FIELD
+    type Subscription { root: Root! }
+    type Root { n: Int! }
+    type Query { ping: String }
+`
+
+const setup = (directives?: { [name: string]: DirectiveHandler }) => {
+    const tracker = createTracker()
+    const schema = createSchema(
+        typeDefs,
+        {
+            Subscription: {
+                root: {
+                    subscribe: async function* () {
+                        yield { root: {} }
+                        await new Promise(() => {})
+                    },
+                },
+            },
+            Root: { n: { subscribe: tracker.ticker("n") } },
+        },
+        { directives }
+    )
+    return { tracker, schema }
+}
+
+describe("directives", () => {
+    it("passes a field's iterator through the handler of each of its directives", async () => {
+        const { schema } = setup({
+            double: it =>
+                (async function* () {
+                    for await (const n of it) yield n * 2
+                })(),
+        })
+        const it = await subscribeTo(schema, "subscription { root { n @double } }")
+        const results = await take(it, 3)
+        await it.return!()
+        expect(results.map(result => result.data)).toEqual([
+            { root: { n: 0 } },
+            { root: { n: 2 } },
+            { root: { n: 4 } },
+        ])
+    })
+
+    it("leaves directives without a handler alone, even those with built-in handlers", async () => {
+        const { schema } = setup()
+        const it = await subscribeTo(schema, "subscription { root { n @debounce(ms: 1000) } }")
+        // debouncing a field which ticks every 20ms would hold back every update
+        const results = await take(it, 3)
+        await it.return!()
+        expect(results).toHaveLength(3)
+    })
+
+    it("only debounces fields once the built-in handlers are included", async () => {
+        const { schema } = setup({ ...coalesceDirectives })
+        const it = await subscribeTo(schema, "subscription { root { n @debounce(ms: 1000) } }")
+        const next = it.next()
+        const first = await Promise.race([
+            next,
+            new Promise(res => setTimeout(() => res("held back"), 200)),
+        ])
+        await it.return!()
+        expect(first).toBe("held back")
+    })
+
+    it("reports a directive with a handler which isn't on the schema as a located error", () => {
+        const { schema } = setup()
+        const operation = parse("{ ping @missing }").definitions[0] as OperationDefinitionNode
+        const info = ({
+            schema,
+            fieldNodes: [operation.selectionSet.selections[0] as FieldNode],
+            path: { prev: undefined, key: "ping", typename: "Query" },
+            variableValues: {},
+        } as unknown) as GraphQLResolveInfo
+        let error: any
+        try {
+            applyDirectives(
+                (async function* () {})(),
+                { missing: it => it },
+                { parent: {}, args: {}, context: {}, info }
+            )
+        } catch (err) {
+            error = err
+        }
+        expect(error).toBeInstanceOf(GraphQLError)
+        expect(error.message).toBe("Directive @missing does not exist on the schema.")
+        expect(error.path).toEqual(["ping"])
+    })
+})
@@ -0,0 +1,66 @@
+import { GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from "graphql"
+import { createIsEqual, isDeepEqual } from "../src/equality"
+import { createSchema, subscribeTo, take, wait } from "./helpers"
+
+const Item = new GraphQLObjectType({ name: "Item", fields: { id: { type: GraphQLString } } })
+
+describe("equality", () => {
+    it("compares values structurally by default", () => {
+        expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+        expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+        expect(isDeepEqual(new Date(0), new Date(0))).toBe(true)
+    })
+
+    it("only compares the elements of lists with the equality function of their type", () => {
+        const isEqual = createIsEqual({ Item: (a, b) => a.id === b.id })
+        const list = new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(Item)))
+        expect(isEqual({ id: "1", name: "a" }, { id: "1", name: "b" }, Item)).toBe(true)
+        expect(isEqual([{ id: "1" }], [{ id: "1" }, { id: "2" }], list)).toBe(false)
+        expect(isEqual([{ id: "1" }], [{ id: "2" }], list)).toBe(false)
+        expect(isEqual([{ id: "1", name: "a" }], [{ id: "1", name: "b" }], list)).toBe(true)
+        expect(isEqual("a", "a", GraphQLString)).toBe(true)
+    })
+
+    it("sends updates to lists whose elements have an equality function", async () => {
+        const schema = createSchema(
+            `
+                type Subscription { items: [Item!]! }
+                type Item { id: ID! name: String! }
+                type Query { ping: String }
+            `,
+            {
+                Subscription: {
+                    items: {
+                        subscribe: async function* () {
+                            yield { items: [{ id: "1", name: "a" }] }
+                            await wait(10)
+                            // the same item, as far as its equality function is concerned
+                            yield { items: [{ id: "1", name: "b" }] }
+                            await wait(10)
+                            yield {
+                                items: [
+                                    { id: "1", name: "b" },
+                                    { id: "2", name: "c" },
+                                ],
+                            }
+                            await new Promise(() => {})
+                        },
+                    },
+                },
+            },
+            { equality: { Item: (a, b) => a.id === b.id } }
+        )
+        const it = await subscribeTo(schema, "subscription { items { id name } }")
+        const results = await take(it, 2)
+        await it.return!()
+        expect(results.map(result => result.data)).toEqual([
+            { items: [{ id: "1", name: "a" }] },
+            {
+                items: [
+                    { id: "1", name: "b" },
+                    { id: "2", name: "c" },
+                ],
+            },
+        ])
+    })
+})
@@ -0,0 +1,76 @@
+import { createSchema, subscribeTo, take, wait } from "./helpers"
+
+const typeDefs = `
+    type Subscription { root: Root! }
+    type Root { status: String }
+    type Query { ping: String }
+`
+
+// a subscribe resolver which yields once, then fails after `ms` milliseconds, counting its attempts
+const createFlappingField = (ms: number) => {
+    const field = {
+        attempts: 0,
+        subscribe: async function* () {
+            field.attempts++
+            yield { status: "ok" }
+            await wait(ms)
+            throw new Error("Upstream failed.")
+        },
+    }
+    return field
+}
+
+const createFlappingSchema = (field: ReturnType<typeof createFlappingField>, errors: any) =>
+    createSchema(
+        typeDefs,
+        {
+            Subscription: {
+                root: {
+                    subscribe: async function* () {
+                        yield { root: {} }
+                        await new Promise(() => {})
+                    },
+                },
+            },
+            Root: { status: { subscribe: field.subscribe } },
+        },
+        { errors }
+    )
+
+describe("retrying failed fields", () => {
+    it("gives up on a field which keeps failing soon after it yields", async () => {
+        const field = createFlappingField(0)
+        const schema = createFlappingSchema(field, { type: "retry", attempts: 2, ms: 10 })
+        const it = await subscribeTo(schema, "subscription { root { status } }")
+        const [first, second] = await take(it, 2)
+        await wait(400)
+        await it.return!()
+
+        expect(first.data).toEqual({ root: { status: "ok" } })
+        expect(second.errors?.[0].message).toBe("Upstream failed.")
+        expect(second.data).toEqual({ root: { status: null } })
+        // the first attempt, and one for each retry
+        expect(field.attempts).toBe(3)
+    })
+
+    it("forgets the failures of a field once it has stayed healthy", async () => {
+        const field = createFlappingField(40)
+        const schema = createFlappingSchema(field, {
+            type: "retry",
+            attempts: 1,
+            ms: 5,
+            healthyMs: 20,
+        })
+        const it = await subscribeTo(schema, "subscription { root { status } }")
+        const results = [] as any[]
+        const collecting = (async () => {
+            for await (const result of it) results.push(result)
+        })()
+        await wait(300)
+        await it.return!()
+        await collecting
+
+        expect(field.attempts).toBeGreaterThan(3)
+        expect(results.every(result => !result.errors)).toBe(true)
+    })
+})
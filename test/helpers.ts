@@ -0,0 +1,95 @@
+import { ExecutionResult, GraphQLSchema, parse, subscribe } from "graphql"
+import { makeExecutableSchema } from "@graphql-tools/schema"
+import { IResolvers } from "@graphql-tools/utils"
+import { patchFieldSubscriptions, PatchOptions } from "../src"
+
+export const wait = (ms: number) => new Promise(res => setTimeout(res, ms))
+
+/**
+ * Wait until a condition holds, failing if it doesn't within the timeout.
+ */
+export const waitFor = async (condition: () => boolean, timeout = 3000) => {
+    const start = Date.now()
+    while (!condition()) {
+        if (Date.now() - start > timeout) throw new Error("Timed out waiting for a condition.")
+        await wait(5)
+    }
+}
+
+/**
+ * Counts how many of the subscribe generators it creates have started, and how many have run their
+ * `finally` blocks.
+ */
+export const createTracker = () => {
+    const tracker = {
+        started: 0,
+        finished: 0,
+        get running() {
+            return tracker.started - tracker.finished
+        },
+        /** Track a subscribe generator. */
+        track: <T>(f: (...args: any[]) => AsyncIterableIterator<T>) =>
+            async function* (...args: any[]) {
+                tracker.started++
+                try {
+                    yield* f(...args)
+                } finally {
+                    tracker.finished++
+                }
+            },
+        /** A subscribe resolver yielding a count every `ms` milliseconds. */
+        ticker: (fieldName: string, ms = 20) =>
+            tracker.track(async function* () {
+                for (let n = 0; ; n++) {
+                    yield { [fieldName]: n }
+                    await wait(ms)
+                }
+            }),
+    }
+    return tracker
+}
+
+/**
+ * Build an executable schema from a patched resolver map.
+ */
+export const createSchema = (
+    typeDefs: string,
+    resolvers: IResolvers<any, any>,
+    options?: PatchOptions
+): GraphQLSchema =>
+    makeExecutableSchema({
+        typeDefs,
+        resolvers: patchFieldSubscriptions(resolvers, options) as any,
+    })
+
+/**
+ * Subscribe to an operation, failing if it can't be subscribed to.
+ */
+export const subscribeTo = async (
+    schema: GraphQLSchema,
+    query: string,
+    contextValue: any = {},
+    variableValues?: { [name: string]: any }
+) => {
+    const result = await subscribe({
+        schema,
+        document: parse(query),
+        contextValue,
+        variableValues,
+    })
+    if (!(Symbol.asyncIterator in result)) throw new Error(JSON.stringify(result))
+    return result as AsyncIterableIterator<ExecutionResult>
+}
+
+/**
+ * Take the next results of an iterator, until there are `n` of them or it finishes.
+ */
+export const take = async <T>(it: AsyncIterator<T>, n: number) => {
+    const values = [] as T[]
+    while (values.length < n) {
+        const result = await it.next()
+        if (result.done) break
+        values.push(result.value)
+    }
+    return values
+}
@@ -0,0 +1,132 @@
+import { createSchema, createTracker, subscribeTo, take, wait, waitFor } from "./helpers"
+
+const typeDefs = `
+    type Subscription { root: Root! }
+    type Root { n: Int! s: Int! child: Child! children: [Child!]! }
+    type Child { id: ID! s: Int! }
+    type Query { ping: String }
+`
+
+const setup = (children: () => any[]) => {
+    const tracker = createTracker()
+    const schema = createSchema(
+        typeDefs,
+        {
+            Subscription: {
+                root: {
+                    subscribe: async function* () {
+                        for (let n = 0; ; n++) {
+                            yield { root: { n } }
+                            await wait(30)
+                        }
+                    },
+                },
+            },
+            Root: {
+                s: { subscribe: tracker.ticker("s", 1000) },
+                child: { resolve: () => ({ id: "a" }) },
+                children: { resolve: children },
+            },
+            Child: { s: { subscribe: tracker.ticker("s", 1000) } },
+        },
+        { keys: { Root: () => "root", Child: (child: any) => child.id } }
+    )
+    return { tracker, schema }
+}
+
+// collect results for a while, then return the subscription
+const collect = async (it: AsyncIterableIterator<any>, ms: number) => {
+    const results = [] as any[]
+    const collecting = (async () => {
+        for await (const result of it) results.push(result)
+    })()
+    await wait(ms)
+    await it.return!()
+    await collecting
+    return results
+}
+
+describe("identity", () => {
+    it("keeps the subscriptions of a keyed object when its field re-emits", async () => {
+        const { tracker, schema } = setup(() => [])
+        const it = await subscribeTo(schema, "subscription { root { n s } }")
+        const results = await collect(it, 200)
+        expect(results.length).toBeGreaterThan(3)
+        expect(tracker.started).toBe(1)
+    })
+
+    it("keeps the subscriptions of keyed objects beneath fields which are resolved again", async () => {
+        const { tracker, schema } = setup(() => [])
+        const it = await subscribeTo(schema, "subscription { root { n child { id s } } }")
+        const results = await collect(it, 200)
+        expect(results.length).toBeGreaterThan(3)
+        expect(results[results.length - 1].data.root.child).toEqual({ id: "a", s: 0 })
+        expect(tracker.started).toBe(1)
+    })
+
+    it("keeps the subscriptions of keyed list elements beneath fields which are resolved again", async () => {
+        let reversed = false
+        const { tracker, schema } = setup(() => {
+            reversed = !reversed
+            return reversed ? [{ id: "b" }, { id: "a" }] : [{ id: "a" }, { id: "b" }]
+        })
+        const it = await subscribeTo(schema, "subscription { root { n children { id s } } }")
+        const results = await collect(it, 200)
+        expect(results.length).toBeGreaterThan(3)
+        expect(tracker.started).toBe(2)
+    })
+
+    it("subscribes to objects whose key has changed", async () => {
+        let count = 0
+        const { tracker, schema } = setup(() => [{ id: String(count++) }])
+        const it = await subscribeTo(schema, "subscription { root { n children { id s } } }")
+        const results = await collect(it, 200)
+        expect(tracker.started).toBe(results.length)
+        // the subscriptions of replaced objects finish once their tickers next wake
+        await waitFor(() => tracker.running === 0)
+    })
+
+    it("locates errors beneath keyed list elements at their current index", async () => {
+        const schema = createSchema(
+            `
+                type Subscription { items: [Item!]! }
+                type Item { id: ID! status: String }
+                type Query { ping: String }
+            `,
+            {
+                Subscription: {
+                    items: {
+                        subscribe: async function* () {
+                            yield { items: [{ id: "a" }, { id: "b" }] }
+                            await wait(20)
+                            yield { items: [{ id: "b" }, { id: "a" }] }
+                            await new Promise(() => {})
+                        },
+                    },
+                },
+                Item: {
+                    status: {
+                        subscribe: async function* (item: any) {
+                            yield { status: "ok" }
+                            if (item.id !== "a") return await new Promise(() => {})
+                            // fails once the items have been reordered
+                            await wait(60)
+                            throw new Error("Failed.")
+                        },
+                    },
+                },
+            },
+            { keys: { Item: (item: any) => item.id } }
+        )
+        const it = await subscribeTo(schema, "subscription { items { id status } }")
+        const results = await take(it, 3)
+        await it.return!()
+        expect(results[1].data).toEqual({
+            items: [
+                { id: "b", status: "ok" },
+                { id: "a", status: "ok" },
+            ],
+        })
+        expect(results[2].errors?.map(error => error.path)).toEqual([["items", 1, "status"]])
+    })
+})
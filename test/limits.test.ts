@@ -0,0 +1,134 @@
+import { ExecutionResult, parse, specifiedRules, validate } from "graphql"
+import { createCostLimitRule, executeLive, getOperationCost, liveDirectiveTypeDefs } from "../src"
+import { createSchema, createTracker, subscribeTo, take, wait } from "./helpers"
+
+const typeDefs = `
+    ${liveDirectiveTypeDefs}
+    type Subscription { root: Root! }
+    type Root { n: Int! child: Child! children: [Child!]! }
+    type Child { id: ID! a: Int! b: String! }
+    type Query { one: Child! two: Child! }
+`
+
+const setup = (limits: any, keys?: any) => {
+    const tracker = createTracker()
+    const schema = createSchema(
+        typeDefs,
+        {
+            Subscription: {
+                root: {
+                    subscribe: async function* () {
+                        for (let n = 0; ; n++) {
+                            yield { root: { n } }
+                            await wait(30)
+                        }
+                    },
+                },
+            },
+            Root: {
+                child: { resolve: () => ({ b: "b" }) },
+                children: { resolve: () => [1, 2, 3].map(id => ({ id, b: "b" })) },
+            },
+            Child: { a: { subscribe: tracker.ticker("a", 1000) } },
+            Query: { one: () => ({ b: "b" }), two: () => ({ b: "b" }) },
+        },
+        { limits, keys }
+    )
+    return { tracker, schema }
+}
+
+describe("limits", () => {
+    it("estimates the cost of operations, and rejects those which cost too much", () => {
+        const { schema } = setup({})
+        const document = parse("subscription { root { n children { a b } } }")
+        // root, n and children, and a and b for each of the 10 children expected by default
+        expect(getOperationCost(schema, document)).toBe(23)
+        expect(getOperationCost(schema, document, { listSizes: { Root: { children: 3 } } })).toBe(9)
+
+        const errors = validate(schema, document, [
+            ...specifiedRules,
+            createCostLimitRule({ maxCost: 20 }),
+        ])
+        expect(errors.map(error => error.message)).toEqual([
+            "The operation has a cost of 23, which is more than the maximum of 20.",
+        ])
+        expect(
+            validate(schema, document, [...specifiedRules, createCostLimitRule({ maxCost: 23 })])
+        ).toEqual([])
+    })
+
+    it("stops counting the fields of a value once it has been replaced", async () => {
+        // root and a take the whole limit, so a value's fields are only subscribed to once the count
+        // has gone back to 1
+        const { schema } = setup({ perOperation: 2 })
+        const it = await subscribeTo(schema, "subscription { root { n child { a b } } }")
+        const results = await take(it, 8)
+        await it.return!()
+        expect(results).toHaveLength(8)
+        expect(results.every(result => !result.errors)).toBe(true)
+    })
+
+    it("stops counting the fields of a subscription once it has been returned", async () => {
+        const { schema, tracker } = setup({ perContext: 2 })
+        const context = {}
+        for (let i = 0; i < 3; i++) {
+            const it = await subscribeTo(
+                schema,
+                "subscription { root { n child { a b } } }",
+                context
+            )
+            const [result] = await take(it, 1)
+            await it.return!()
+            expect(result.errors).toBeUndefined()
+        }
+        // the count went back to 0 each time, even though the iterators have yet to finish
+        expect(tracker.running).toBeGreaterThan(0)
+    })
+
+    it("reports an error in place of fields which exceed a limit", async () => {
+        // root and the a of each of the 3 children would exceed the limit
+        const { schema } = setup({ perOperation: 3 })
+        const it = await subscribeTo(schema, "subscription { root { n children { a } } }")
+        // the subscription carries on, and its fields are subscribed to again once its root re-emits
+        const results = await take(it, 3)
+        await it.return!()
+        expect(results).toHaveLength(3)
+        for (const result of results)
+            expect(result.errors?.[0].message).toBe(
+                "Too many fields subscribed to at once, as at most 3 may be per operation."
+            )
+    })
+
+    it("counts the fields kept running for keyed list elements once, however often they're kept", async () => {
+        const subscribe = async (limits: any) => {
+            const { schema } = setup(limits, { Child: (child: any) => child.id })
+            const it = await subscribeTo(schema, "subscription { root { n children { id a } } }")
+            const results = await take(it, 4)
+            await it.return!()
+            return results
+        }
+        // root and the a of each of the 3 children
+        expect((await subscribe({ perOperation: 4 })).every(result => !result.errors)).toBe(true)
+        const [result] = await subscribe({ perOperation: 3 })
+        expect(result.errors?.[0].message).toBe(
+            "Too many fields subscribed to at once, as at most 3 may be per operation."
+        )
+    })
+
+    it("counts every root field of a live query towards the same operation", async () => {
+        const live = async (limits: any) => {
+            const it = (await executeLive({
+                schema: setup(limits).schema,
+                document: parse("query @live { one { a b } two { a b } }"),
+            })) as AsyncIterableIterator<ExecutionResult>
+            const [result] = await take(it, 1)
+            await it.return!()
+            return result
+        }
+        // each root field, and its a
+        expect((await live({ perOperation: 4 })).errors).toBeUndefined()
+        expect((await live({ perOperation: 3 })).errors?.map(error => error.message)).toEqual([
+            "Too many fields subscribed to at once, as at most 3 may be per operation.",
+        ])
+    })
+})
@@ -0,0 +1,134 @@
+import { mergeAsyncIterators } from "../src/util"
+import { createSchema, take, wait, waitFor } from "./helpers"
+
+// an iterator yielding the given values, counting how many have been pulled from it
+const fromValues = <T>(values: T[], ms?: number) => {
+    const source = { pulled: 0, finished: false }
+    const it = (async function* () {
+        try {
+            for (const value of values) {
+                if (ms !== undefined) await wait(ms)
+                source.pulled++
+                yield value
+            }
+        } finally {
+            source.finished = true
+        }
+    })()
+    return Object.assign(source, { it })
+}
+
+// take every value of an iterator until it finishes
+const drain = async <T>(it: AsyncIterator<T>) => take(it, Infinity)
+
+describe("mergeAsyncIterators", () => {
+    describe("completion", () => {
+        it("finishes straight away when there are no iterators", async () => {
+            expect(await drain(mergeAsyncIterators([]))).toEqual([])
+        })
+
+        it("yields every value in the order they arrive, and finishes once every iterator has", async () => {
+            const a = fromValues([1, 3], 10)
+            const b = fromValues([2, 4, 5], 15)
+            const merged = mergeAsyncIterators([a.it, b.it])
+            expect(await drain(merged)).toEqual([1, 2, 3, 4, 5])
+            expect(await merged.next()).toEqual({ value: undefined, done: true })
+        })
+
+        it("returns every iterator when it is returned, even while waiting on a value", async () => {
+            const a = fromValues([1, 2], 1000)
+            const b = fromValues([1], 0)
+            const merged = mergeAsyncIterators([a.it, b.it])
+            await merged.next()
+            const pending = merged.next()
+            await merged.return!()
+            expect(await pending).toEqual({ value: undefined, done: true })
+            await waitFor(() => b.finished)
+            expect(a.pulled).toBe(0)
+        })
+    })
+
+    describe("errors", () => {
+        it("throws once the values which arrived before the error have been taken", async () => {
+            const failing = (async function* () {
+                yield 1
+                yield 2
+                throw new Error("Failed.")
+            })()
+            const other = fromValues([1, 2, 3], 1000)
+            const merged = mergeAsyncIterators([failing, other.it])
+            expect(await merged.next()).toEqual({ value: 1, done: false })
+            await wait(10)
+            expect(await merged.next()).toEqual({ value: 2, done: false })
+            await expect(merged.next()).rejects.toThrow("Failed.")
+            expect(await merged.next()).toEqual({ value: undefined, done: true })
+        })
+
+        it("returns every other iterator once one throws", async () => {
+            const failing = (async function* () {
+                await wait(10)
+                throw new Error("Failed.")
+            })()
+            const other = fromValues([1, 2, 3], 20)
+            await expect(drain(mergeAsyncIterators([failing, other.it]))).rejects.toThrow("Failed.")
+            await waitFor(() => other.finished)
+        })
+    })
+
+    describe("overflow", () => {
+        it("pauses sources while their values haven't been taken by default", async () => {
+            const source = fromValues([1, 2, 3, 4, 5])
+            const merged = mergeAsyncIterators([source.it])
+            expect(await merged.next()).toEqual({ value: 1, done: false })
+            await wait(20)
+            // the value after the one taken is waiting in the buffer
+            expect(source.pulled).toBe(2)
+            expect(await drain(merged)).toEqual([2, 3, 4, 5])
+        })
+
+        it("pauses sources once more than the limit are buffered when blocking", async () => {
+            const source = fromValues([1, 2, 3, 4, 5, 6])
+            const merged = mergeAsyncIterators([source.it], { overflow: "block", limit: 2 })
+            expect(await merged.next()).toEqual({ value: 1, done: false })
+            await wait(20)
+            expect(source.pulled).toBe(4)
+            expect(await drain(merged)).toEqual([2, 3, 4, 5, 6])
+        })
+
+        it("drops the oldest values once more than the limit are buffered", async () => {
+            const source = fromValues([1, 2, 3, 4, 5, 6])
+            const merged = mergeAsyncIterators([source.it], { overflow: "drop-oldest", limit: 2 })
+            expect(await merged.next()).toEqual({ value: 1, done: false })
+            await waitFor(() => source.finished)
+            expect(await drain(merged)).toEqual([5, 6])
+        })
+
+        it("keeps only the latest value of each source", async () => {
+            const a = fromValues([1, 2, 3, 4])
+            const b = fromValues(["a", "b"])
+            const merged = mergeAsyncIterators<number | string>([a.it, b.it], {
+                overflow: "keep-latest",
+            })
+            await merged.next()
+            await waitFor(() => a.finished && b.finished)
+            const rest = await drain(merged)
+            expect(rest).toHaveLength(2)
+            expect(rest).toEqual(expect.arrayContaining([4, "b"]))
+        })
+
+        it("rejects dropping the oldest values with a limit of less than 1", () => {
+            expect(() => mergeAsyncIterators([], { overflow: "drop-oldest", limit: 0 })).toThrow(
+                "The drop-oldest overflow strategy needs a limit of at least 1"
+            )
+            expect(() =>
+                createSchema(
+                    "type Query { ping: String }",
+                    { Query: { ping: () => "pong" } },
+                    {
+                        buffer: { overflow: "drop-oldest", limit: 0 },
+                    }
+                )
+            ).toThrow("The drop-oldest overflow strategy needs a limit of at least 1")
+        })
+    })
+})
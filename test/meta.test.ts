@@ -0,0 +1,58 @@
+import { createSchema, subscribeTo, take } from "./helpers"
+
+const typeDefs = `
+    type Subscription { root: Root! }
+    type Root { n: Int! plain: Plain! result: Result! }
+    type Plain { leaf: String }
+    union Result = Plain
+    type Query { ping: String }
+`
+
+const schema = createSchema(typeDefs, {
+    Subscription: {
+        root: {
+            subscribe: async function* () {
+                yield { root: { n: 1, plain: { leaf: "leaf" }, result: { leaf: "leaf" } } }
+                await new Promise(() => {})
+            },
+        },
+    },
+    Result: { __resolveType: () => "Plain" },
+})
+
+const first = async (query: string, variableValues?: { [name: string]: any }) => {
+    const it = await subscribeTo(schema, query, {}, variableValues)
+    const [result] = await take(it, 1)
+    await it.return!()
+    return result
+}
+
+describe("meta fields", () => {
+    it("resolves __typename beside other fields", async () => {
+        expect(await first("subscription { root { __typename n result { __typename } } }")).toEqual(
+            {
+                data: { root: { __typename: "Root", n: 1, result: { __typename: "Plain" } } },
+            }
+        )
+    })
+
+    it("yields objects whose only field is __typename", async () => {
+        expect(await first("subscription { root { plain { __typename } } }")).toEqual({
+            data: { root: { plain: { __typename: "Plain" } } },
+        })
+        expect(await first("subscription { root { __typename } }")).toEqual({
+            data: { root: { __typename: "Root" } },
+        })
+    })
+
+    it("yields objects whose every field is skipped", async () => {
+        expect(
+            await first(
+                "subscription($skip: Boolean!) { root { plain { leaf @skip(if: $skip) } } }",
+                {
+                    skip: true,
+                }
+            )
+        ).toEqual({ data: { root: { plain: {} } } })
+    })
+})
@@ -0,0 +1,96 @@
+import { EventEmitter } from "events"
+import { GraphQLResolveInfo } from "graphql"
+import { createMulticastRegistry, fromEventEmitter } from "../src"
+import { take, waitFor } from "./helpers"
+
+const info = { parentType: { name: "User" }, fieldName: "status" } as GraphQLResolveInfo
+const user = { id: "1" }
+
+// every subscriber to the status of the same user shares one listener of the emitter
+const setup = () => {
+    const emitter = new EventEmitter()
+    const registry = createMulticastRegistry()
+    const status = fromEventEmitter(emitter, "status", {
+        map: status => {
+            if (status === "unknown") throw new Error("Unknown status.")
+            return status
+        },
+    })
+    let calls = 0
+    const subscribe = async () =>
+        (await registry.subscribe(user, {}, info, () => {
+            calls++
+            return status(user, {}, {}, info)
+        })) as AsyncIterableIterator<any>
+    return { emitter, registry, subscribe, calls: () => calls }
+}
+
+describe("multicast", () => {
+    it("shares one upstream between every subscriber to the same field", async () => {
+        const { emitter, registry, subscribe, calls } = setup()
+        const a = await subscribe()
+        const b = await subscribe()
+        expect(calls()).toBe(1)
+        expect(registry.size).toBe(1)
+        expect(emitter.listenerCount("status")).toBe(1)
+
+        const values = Promise.all([take(a, 2), take(b, 2)])
+        emitter.emit("status", "away")
+        emitter.emit("status", "busy")
+        const expected = [{ status: "away" }, { status: "busy" }]
+        expect(await values).toEqual([expected, expected])
+        await a.return!()
+        await b.return!()
+    })
+
+    it("sends the latest value to subscribers joining late", async () => {
+        const { emitter, subscribe, calls } = setup()
+        const a = await subscribe()
+        const first = take(a, 2)
+        emitter.emit("status", "away")
+        emitter.emit("status", "busy")
+        await first
+
+        const b = await subscribe()
+        expect(await take(b, 1)).toEqual([{ status: "busy" }])
+        const next = Promise.all([take(a, 1), take(b, 1)])
+        emitter.emit("status", "online")
+        expect(await next).toEqual([[{ status: "online" }], [{ status: "online" }]])
+        expect(calls()).toBe(1)
+        await a.return!()
+        await b.return!()
+    })
+
+    it("closes the upstream once the last subscriber leaves", async () => {
+        const { emitter, registry, subscribe, calls } = setup()
+        const a = await subscribe()
+        const b = await subscribe()
+        await a.return!()
+        await new Promise(res => setTimeout(res, 10))
+        expect(emitter.listenerCount("status")).toBe(1)
+
+        await b.return!()
+        await waitFor(() => emitter.listenerCount("status") === 0)
+        expect(registry.size).toBe(0)
+
+        // subscribing again starts a new upstream
+        const c = await subscribe()
+        expect(calls()).toBe(2)
+        expect(emitter.listenerCount("status")).toBe(1)
+        await c.return!()
+    })
+
+    it("fails every subscriber when the upstream fails", async () => {
+        const { emitter, registry, subscribe } = setup()
+        const a = await subscribe()
+        const b = await subscribe()
+        const failures = Promise.all([
+            a.next().catch(err => err.message),
+            b.next().catch(err => err.message),
+        ])
+        emitter.emit("status", "unknown")
+        expect(await failures).toEqual(["Unknown status.", "Unknown status."])
+        await waitFor(() => emitter.listenerCount("status") === 0)
+        expect(registry.size).toBe(0)
+    })
+})
@@ -0,0 +1,66 @@
+import { GraphQLObjectType, execute, parse, printSchema } from "graphql"
+import { makeExecutableSchema } from "@graphql-tools/schema"
+import { patchSchema } from "../src"
+import { createTracker, subscribeTo, take } from "./helpers"
+
+const typeDefs = `
+    type Subscription { root: Root! }
+    type Root { name: String! n: Int! }
+    type Query { root: Root! }
+`
+
+const setup = () => {
+    const tracker = createTracker()
+    const schema = makeExecutableSchema({
+        typeDefs,
+        resolvers: {
+            Subscription: {
+                root: {
+                    subscribe: async function* () {
+                        yield { root: { name: "root" } }
+                        await new Promise(() => {})
+                    },
+                },
+            },
+            Root: { n: { subscribe: tracker.ticker("n"), resolve: (root: any) => root.n } },
+            Query: { root: () => ({ name: "root", n: 0 }) },
+        },
+    })
+    return { schema }
+}
+
+describe("patchSchema", () => {
+    it("patches a copy of the schema, leaving the original unchanged", async () => {
+        const { schema } = setup()
+        const fields = (schema.getType("Root") as GraphQLObjectType).getFields()
+        const before = {
+            resolve: fields.n.resolve,
+            subscribe: fields.n.subscribe,
+            root: schema.getQueryType()!.getFields().root.resolve,
+        }
+        const patched = patchSchema(schema)
+        expect(patched).not.toBe(schema)
+        expect(printSchema(patched)).toBe(printSchema(schema))
+
+        const it = await subscribeTo(patched, "subscription { root { name n } }")
+        const results = await take(it, 2)
+        await it.return!()
+        expect(results[1].data).toEqual({ root: { name: "root", n: 1 } })
+
+        const after = (schema.getType("Root") as GraphQLObjectType).getFields()
+        expect(after.n.resolve).toBe(before.resolve)
+        expect(after.n.subscribe).toBe(before.subscribe)
+        expect(after.name.resolve).toBeUndefined()
+        expect(schema.getQueryType()!.getFields().root.resolve).toBe(before.root)
+        expect(await execute({ schema, document: parse("{ root { name n } }") })).toEqual({
+            data: { root: { name: "root", n: 0 } },
+        })
+    })
+
+    it("resolves queries against the patched schema as normal", async () => {
+        const patched = patchSchema(setup().schema)
+        expect(await execute({ schema: patched, document: parse("{ root { name n } }") })).toEqual({
+            data: { root: { name: "root", n: 0 } },
+        })
+    })
+})
@@ -0,0 +1,176 @@
+import { createServer, request, Server } from "http"
+import { AddressInfo } from "net"
+import WebSocket, { WebSocketServer } from "ws"
+import { makeExecutableSchema } from "@graphql-tools/schema"
+import { createClient } from "graphql-ws"
+import { useServer } from "graphql-ws/lib/use/ws"
+import { createHandler } from "graphql-sse/lib/use/http"
+import { ExecutionResult, versionInfo } from "graphql"
+import { graphqlWsOptions, graphqlSseOptions, apolloServerOptions } from "../src"
+import { createTracker, wait, waitFor } from "./helpers"
+
+const typeDefs = `
+    type Subscription { me: User! }
+    type User { name: String! n: Int! }
+    type Query { ping: String }
+`
+
+// an unpatched schema, which the server options patch
+const setup = () => {
+    const root = createTracker()
+    const nested = createTracker()
+    const schema = makeExecutableSchema({
+        typeDefs,
+        resolvers: {
+            Subscription: {
+                me: {
+                    subscribe: root.track(async function* (_: unknown, __: unknown, ctx: any) {
+                        for (;;) {
+                            yield { me: { name: ctx.user } }
+                            await wait(200)
+                        }
+                    }),
+                },
+            },
+            User: { n: { subscribe: nested.ticker("n") } },
+            Query: { ping: (_: unknown, __: unknown, ctx: any) => ctx.user },
+        },
+    })
+    return { root, nested, schema }
+}
+
+const listen = async (server: Server) => {
+    await new Promise<void>(res => server.listen(0, res))
+    return (server.address() as AddressInfo).port
+}
+
+const query = "subscription { me { name n } }"
+
+// serves an unpatched schema with graphql-ws, and subscribes to it
+const startGraphqlWs = async () => {
+    const { root, nested, schema } = setup()
+    const server = createServer()
+    const wsServer = new WebSocketServer({ server })
+    const options = graphqlWsOptions({
+        schema,
+        context: (ctx: any) => ({ user: ctx.connectionParams.user }),
+    })
+    const cleanup = useServer(options, wsServer)
+    const port = await listen(server)
+    const client = createClient({
+        url: `ws://localhost:${port}`,
+        webSocketImpl: WebSocket,
+        connectionParams: { user: "alice" },
+        retryAttempts: 0,
+    })
+    const results = [] as ExecutionResult<any, any>[]
+    const unsubscribe = client.subscribe(
+        { query },
+        { next: result => results.push(result), error: () => {}, complete: () => {} }
+    )
+    const stop = async (disposed = false) => {
+        await client.dispose()
+        if (!disposed) await cleanup.dispose()
+        await new Promise(res => server.close(res))
+    }
+    return { root, nested, options, cleanup, client, results, unsubscribe, stop }
+}
+
+describe("graphql-ws", () => {
+    it("forwards the context, and closes every iterator once the client unsubscribes", async () => {
+        const { root, nested, results, unsubscribe, stop } = await startGraphqlWs()
+        await waitFor(() => results.length >= 2)
+        expect(results[0].data).toEqual({ me: { name: "alice", n: 0 } })
+
+        unsubscribe()
+        await waitFor(() => nested.running === 0 && root.running === 0)
+        await stop()
+    })
+
+    it("closes every iterator once the client disconnects", async () => {
+        const { root, nested, client, results, stop } = await startGraphqlWs()
+        await waitFor(() => results.length >= 1)
+
+        await client.dispose()
+        await waitFor(() => nested.running === 0 && root.running === 0)
+        expect(root.finished).toBe(1)
+        await stop()
+    })
+})
+
+// Apollo Server 4 requires GraphQL.js 16
+const describeApolloServer = versionInfo.major >= 16 ? describe : describe.skip
+
+describeApolloServer("Apollo Server 4", () => {
+    it("serves queries with the schema of graphql-ws, and closes every subscription once stopped", async () => {
+        const { ApolloServer } = require("@apollo/server") as typeof import("@apollo/server")
+        const { root, nested, options, cleanup, results, stop } = await startGraphqlWs()
+        const apollo = new ApolloServer(apolloServerOptions(options, cleanup))
+        await apollo.start()
+
+        const response = await apollo.executeOperation(
+            { query: "{ ping }" },
+            { contextValue: { user: "carol" } }
+        )
+        expect(response.body.kind === "single" && response.body.singleResult.data).toEqual({
+            ping: "carol",
+        })
+
+        await waitFor(() => results.length >= 1)
+        await apollo.stop()
+        await waitFor(() => nested.running === 0 && root.running === 0)
+        await stop(true)
+    })
+})
+
+describe("graphql-sse", () => {
+    it("forwards the context, and closes every iterator once the event stream closes", async () => {
+        const { root, nested, schema } = setup()
+        const server = createServer(
+            createHandler(
+                graphqlSseOptions({
+                    schema,
+                    context: (req: any) => ({ user: req.raw.headers["x-user"] }),
+                })
+            )
+        )
+        const port = await listen(server)
+
+        const events = [] as ExecutionResult[]
+        const req = request({
+            port,
+            method: "POST",
+            headers: {
+                accept: "text/event-stream",
+                "content-type": "application/json",
+                "x-user": "bob",
+            },
+        })
+        req.on("response", res =>
+            res.on("data", (chunk: Buffer) => {
+                for (const [, data] of chunk.toString().matchAll(/^data: (.+)$/gm))
+                    events.push(JSON.parse(data))
+            })
+        )
+        req.on("error", () => {})
+        req.end(JSON.stringify({ query }))
+
+        await waitFor(() => events.length >= 2)
+        expect(events[0].data).toEqual({ me: { name: "bob", n: 0 } })
+
+        req.destroy()
+        await waitFor(() => nested.running === 0 && root.running === 0)
+        await new Promise(res => server.close(res))
+    })
+})
+
+describe("already patched schemas", () => {
+    it("rejects patch options, rather than ignoring them", () => {
+        const { schema } = setup()
+        const patched = graphqlWsOptions({ schema }).schema
+        expect(() => graphqlWsOptions({ schema: patched })).not.toThrow()
+        expect(() => graphqlWsOptions({ schema: patched, limits: { perOperation: 1 } })).toThrow(
+            "Options can't be given for resolvers which have already been patched"
+        )
+    })
+})
@@ -0,0 +1,49 @@
+import { toSnapshotAsyncIterator } from "../src"
+import { shareData } from "../src/snapshot"
+import { createSchema, createTracker, subscribeTo, take } from "./helpers"
+
+describe("snapshots", () => {
+    it("shares whatever hasn't changed with the previous data, and freezes the rest", () => {
+        const prev = shareData(undefined, { a: { b: [{ c: 1 }, { c: 2 }] }, d: { e: 1 } })
+        const next = shareData(prev, { a: { b: [{ c: 1 }, { c: 3 }] }, d: { e: 1 } })
+        expect(next).toEqual({ a: { b: [{ c: 1 }, { c: 3 }] }, d: { e: 1 } })
+        expect(next.d).toBe(prev.d)
+        expect(next.a.b[0]).toBe(prev.a.b[0])
+        expect(next.a).not.toBe(prev.a)
+        expect(Object.isFrozen(next.a.b)).toBe(true)
+        expect(shareData(next, { a: { b: [{ c: 1 }, { c: 3 }] }, d: { e: 1 } })).toBe(next)
+    })
+
+    it("keeps the identity of unchanged siblings across updates of a subscription", async () => {
+        const tracker = createTracker()
+        const schema = createSchema(
+            `
+                type Subscription { root: Root! }
+                type Root { static: Static! ticking: Ticking! }
+                type Static { name: String! }
+                type Ticking { n: Int! }
+                type Query { ping: String }
+            `,
+            {
+                Subscription: {
+                    root: {
+                        subscribe: async function* () {
+                            yield { root: { static: { name: "static" }, ticking: {} } }
+                            await new Promise(() => {})
+                        },
+                    },
+                },
+                Ticking: { n: { subscribe: tracker.ticker("n") } },
+            }
+        )
+        const it = toSnapshotAsyncIterator(
+            await subscribeTo(schema, "subscription { root { static { name } ticking { n } } }")
+        )
+        const [first, second] = await take(it, 2)
+        await it.return!()
+        expect(second.data).toEqual({ root: { static: { name: "static" }, ticking: { n: 1 } } })
+        expect(second.data!.root.static).toBe(first.data!.root.static)
+        expect(second.data!.root.ticking).not.toBe(first.data!.root.ticking)
+        expect(Object.isFrozen(first.data)).toBe(true)
+    })
+})
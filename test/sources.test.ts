@@ -0,0 +1,74 @@
+import { EventEmitter } from "events"
+import { GraphQLResolveInfo } from "graphql"
+import { fromEventEmitter, fromPubSub } from "../src"
+import { take, waitFor } from "./helpers"
+
+const info = { fieldName: "status" } as GraphQLResolveInfo
+
+// an in-memory PubSub, whose subscriptions can be counted
+const createPubSub = (subscribe?: () => Promise<number>) => {
+    const subscriptions = new Map<number, { topic: string; onMessage: (payload: any) => void }>()
+    let lastId = 0
+    return {
+        subscriptions,
+        publish: (topic: string, payload: any) => {
+            for (const subscription of subscriptions.values())
+                if (subscription.topic === topic) subscription.onMessage(payload)
+        },
+        subscribe: async (topic: string, onMessage: (payload: any) => void) => {
+            if (subscribe) return subscribe()
+            subscriptions.set(++lastId, { topic, onMessage })
+            return lastId
+        },
+        unsubscribe: (id: number) => {
+            subscriptions.delete(id)
+        },
+    }
+}
+
+describe("fromPubSub", () => {
+    it("yields the filtered and mapped payloads of a topic, and unsubscribes once returned", async () => {
+        const pubsub = createPubSub()
+        const subscribe = fromPubSub(pubsub, (user: any) => `user:${user.id}`, {
+            filter: payload => payload.visible,
+            map: payload => payload.status,
+        })
+        const it = subscribe({ id: "1" }, {}, {}, info) as AsyncIterableIterator<any>
+        const values = take(it, 2)
+        await waitFor(() => pubsub.subscriptions.size === 1)
+        pubsub.publish("user:2", { visible: true, status: "elsewhere" })
+        pubsub.publish("user:1", { visible: false, status: "hidden" })
+        pubsub.publish("user:1", { visible: true, status: "away" })
+        pubsub.publish("user:1", { visible: true, status: "busy" })
+        expect(await values).toEqual([{ status: "away" }, { status: "busy" }])
+
+        await it.return!()
+        expect(pubsub.subscriptions.size).toBe(0)
+        expect(await it.next()).toEqual({ value: undefined, done: true })
+    })
+
+    it("fails the field if subscribing to the topic fails", async () => {
+        const pubsub = createPubSub(() => Promise.reject(new Error("Unavailable.")))
+        const it = fromPubSub(pubsub, "topic")({}, {}, {}, info) as AsyncIterableIterator<any>
+        await expect(it.next()).rejects.toThrow("Unavailable.")
+        await it.return!()
+    })
+})
+
+describe("fromEventEmitter", () => {
+    it("yields the first argument of each event, and removes its listener once returned", async () => {
+        const emitter = new EventEmitter()
+        const subscribe = fromEventEmitter(emitter, "status", {
+            map: status => status.toUpperCase(),
+        })
+        const it = subscribe({}, {}, {}, info) as AsyncIterableIterator<any>
+        expect(emitter.listenerCount("status")).toBe(1)
+        const values = take(it, 2)
+        emitter.emit("status", "away", "ignored")
+        emitter.emit("status", "busy")
+        expect(await values).toEqual([{ status: "AWAY" }, { status: "BUSY" }])
+
+        await it.return!()
+        expect(emitter.listenerCount("status")).toBe(0)
+    })
+})